@@ -1,24 +1,37 @@
 import typescript from "@rollup/plugin-typescript";
 import dts from "rollup-plugin-dts";
 
+// Entry points share one chunk for internal state (reporters, history),
+// so `react-safe-hooks/testing` sees the same warnings as the main entry.
+const input = {
+  index: "src/index.ts",
+  testing: "src/testing/index.ts",
+};
+
+const external = ["react", "react/jsx-runtime", /^node:/];
+
 /** @type {import('rollup').RollupOptions[]} */
 export default [
-  // Main bundle (ESM + CJS)
+  // Main bundles (ESM + CJS)
   {
-    input: "src/index.ts",
+    input,
     output: [
       {
-        file: "dist/index.esm.js",
+        dir: "dist",
         format: "esm",
+        entryFileNames: "[name].esm.js",
+        chunkFileNames: "shared-[hash].esm.js",
         sourcemap: true,
       },
       {
-        file: "dist/index.cjs.js",
+        dir: "dist",
         format: "cjs",
+        entryFileNames: "[name].cjs.js",
+        chunkFileNames: "shared-[hash].cjs.js",
         sourcemap: true,
       },
     ],
-    external: ["react"],
+    external,
     plugins: [
       typescript({
         tsconfig: "./tsconfig.json",
@@ -28,12 +41,14 @@ export default [
   },
   // Type declarations
   {
-    input: "src/index.ts",
+    input,
     output: {
-      file: "dist/index.d.ts",
+      dir: "dist",
       format: "esm",
+      entryFileNames: "[name].d.ts",
+      chunkFileNames: "shared-[hash].d.ts",
     },
-    external: ["react"],
+    external,
     plugins: [dts()],
   },
 ];
@@ -0,0 +1,349 @@
+/**
+ * SafeHooksOverlay - In-app panel listing safe-hook warnings.
+ *
+ * Shows the warnings collected in the warning history so they are visible
+ * even when the DevTools console is closed. Renders nothing in production.
+ */
+
+import { useMemo, useState, useSyncExternalStore } from "react";
+import type { CSSProperties } from "react";
+import {
+  __DEV__,
+  clearWarnings,
+  getSafeHookWarnings,
+  subscribeToSafeHookWarnings,
+  type SafeHookWarningEntry,
+  type WarningSeverity,
+} from "../internal";
+
+/**
+ * Props for SafeHooksOverlay.
+ */
+export interface SafeHooksOverlayProps {
+  /**
+   * Corner of the viewport the overlay is pinned to.
+   * @default "bottom-right"
+   */
+  position?: "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+  /**
+   * Whether the panel starts expanded. When collapsed, only a badge with the
+   * number of warnings is shown.
+   * @default false
+   */
+  defaultOpen?: boolean;
+}
+
+/**
+ * Warnings from one hook in one component.
+ */
+interface WarningGroup {
+  key: string;
+  componentName: string;
+  hookName: string;
+  entries: SafeHookWarningEntry[];
+  lastSeen: number;
+}
+
+/**
+ * Subscribes to the warning history.
+ * Warnings are recorded while other components render, so the notification
+ * is deferred to avoid updating the overlay in the middle of their render.
+ *
+ * @param onChange - Called after the history changed
+ * @returns A function that removes the subscription
+ */
+function subscribe(onChange: () => void): () => void {
+  let active = true;
+  const unsubscribe = subscribeToSafeHookWarnings(() => {
+    queueMicrotask(() => {
+      if (active) onChange();
+    });
+  });
+
+  return () => {
+    active = false;
+    unsubscribe();
+  };
+}
+
+/** Snapshot used during server rendering */
+function getServerSnapshot(): readonly SafeHookWarningEntry[] {
+  return [];
+}
+
+/**
+ * Groups warnings by component and hook, most recently seen group first.
+ *
+ * @param entries - Warnings to group
+ * @returns The groups
+ */
+function groupWarnings(entries: readonly SafeHookWarningEntry[]): WarningGroup[] {
+  const groups = new Map<string, WarningGroup>();
+
+  for (const entry of entries) {
+    const key = `${entry.componentName}:${entry.hookName}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        componentName: entry.componentName,
+        hookName: entry.hookName,
+        entries: [],
+        lastSeen: 0,
+      };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+    group.lastSeen = Math.max(group.lastSeen, entry.lastSeen);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+/**
+ * Checks whether a warning matches the text filter.
+ *
+ * @param entry - The warning to check
+ * @param query - Lower-cased filter text
+ * @returns True if any identifying field contains the query
+ */
+function matchesQuery(entry: SafeHookWarningEntry, query: string): boolean {
+  return [
+    entry.code,
+    entry.rule,
+    entry.componentName,
+    entry.hookName,
+    entry.message,
+    entry.ancestry?.path.join(" ") ?? "",
+  ].some((field) => field.toLowerCase().includes(query));
+}
+
+const POSITION_STYLES: Record<NonNullable<SafeHooksOverlayProps["position"]>, CSSProperties> = {
+  "top-left": { top: 12, left: 12 },
+  "top-right": { top: 12, right: 12 },
+  "bottom-left": { bottom: 12, left: 12 },
+  "bottom-right": { bottom: 12, right: 12 },
+};
+
+const styles = {
+  root: {
+    position: "fixed",
+    zIndex: 2147483647,
+    fontFamily: "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace",
+    fontSize: 12,
+    color: "#1f2328",
+  },
+  badge: {
+    border: "none",
+    borderRadius: 16,
+    padding: "6px 12px",
+    background: "#bf8700",
+    color: "#fff",
+    cursor: "pointer",
+    font: "inherit",
+  },
+  panel: {
+    width: 420,
+    maxHeight: "60vh",
+    display: "flex",
+    flexDirection: "column",
+    background: "#fff",
+    border: "1px solid #d0d7de",
+    borderRadius: 6,
+    boxShadow: "0 8px 24px rgba(140, 149, 159, 0.3)",
+  },
+  toolbar: {
+    display: "flex",
+    gap: 6,
+    padding: 8,
+    borderBottom: "1px solid #d0d7de",
+  },
+  input: { flex: 1, font: "inherit", padding: "2px 6px" },
+  button: { font: "inherit", cursor: "pointer" },
+  list: { overflowY: "auto", padding: 8 },
+  group: { marginBottom: 10 },
+  groupHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    fontWeight: 600,
+    marginBottom: 4,
+  },
+  entry: {
+    borderLeft: "3px solid #bf8700",
+    padding: "2px 0 2px 8px",
+    marginBottom: 6,
+  },
+  errorEntry: { borderLeftColor: "#cf222e" },
+  muted: { color: "#57606a" },
+  fix: { whiteSpace: "pre-wrap", marginTop: 2 },
+} satisfies Record<string, CSSProperties>;
+
+/**
+ * Dev-only panel listing collected safe-hook warnings.
+ *
+ * Warnings are grouped by component and hook and show the suggested fix.
+ * The panel can be filtered by text or severity, groups can be dismissed
+ * (they reappear if the warning fires again), and the whole panel collapses
+ * to a badge.
+ *
+ * In production mode, this renders nothing.
+ *
+ * @example
+ * ```tsx
+ * function App() {
+ *   return (
+ *     <>
+ *       <Routes />
+ *       <SafeHooksOverlay position="bottom-left" />
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function SafeHooksOverlay({
+  position = "bottom-right",
+  defaultOpen = false,
+}: SafeHooksOverlayProps) {
+  if (!__DEV__) {
+    return null;
+  }
+
+  /* eslint-disable react-hooks/rules-of-hooks */
+  const entries = useSyncExternalStore(subscribe, getSafeHookWarnings, getServerSnapshot);
+  const [open, setOpen] = useState(defaultOpen);
+  const [query, setQuery] = useState("");
+  const [severity, setSeverity] = useState<WarningSeverity | "all">("all");
+  // Group key -> time of dismissal; newer occurrences bring the group back
+  const [dismissed, setDismissed] = useState<Record<string, number>>({});
+
+  const groups = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    const visible = entries.filter(
+      (entry) =>
+        (severity === "all" || entry.severity === severity) &&
+        (normalizedQuery === "" || matchesQuery(entry, normalizedQuery))
+    );
+
+    return groupWarnings(visible).filter(
+      (group) => group.lastSeen > (dismissed[group.key] ?? -1)
+    );
+  }, [entries, query, severity, dismissed]);
+  /* eslint-enable react-hooks/rules-of-hooks */
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const rootStyle = { ...styles.root, ...POSITION_STYLES[position] };
+
+  if (!open) {
+    return (
+      <div style={rootStyle}>
+        <button
+          type="button"
+          style={styles.badge}
+          onClick={() => setOpen(true)}
+          aria-label="Show react-safe-hooks warnings"
+        >
+          ⚠️ {entries.length} safe-hook warning{entries.length === 1 ? "" : "s"}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={rootStyle} role="dialog" aria-label="react-safe-hooks warnings">
+      <div style={styles.panel}>
+        <div style={styles.toolbar}>
+          <input
+            style={styles.input}
+            placeholder="Filter by code, component, hook…"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+          />
+          <select
+            style={styles.button}
+            value={severity}
+            onChange={(event) => setSeverity(event.target.value as WarningSeverity | "all")}
+          >
+            <option value="all">All</option>
+            <option value="warn">Warnings</option>
+            <option value="error">Errors</option>
+          </select>
+          <button
+            type="button"
+            style={styles.button}
+            onClick={() => {
+              clearWarnings();
+              setDismissed({});
+            }}
+          >
+            Clear
+          </button>
+          <button
+            type="button"
+            style={styles.button}
+            onClick={() => setOpen(false)}
+            aria-label="Hide react-safe-hooks warnings"
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={styles.list}>
+          {groups.length === 0 && <div style={styles.muted}>No matching warnings.</div>}
+
+          {groups.map((group) => (
+            <section key={group.key} style={styles.group}>
+              <div style={styles.groupHeader}>
+                <span>
+                  {group.componentName} › {group.hookName}
+                </span>
+                <button
+                  type="button"
+                  style={styles.button}
+                  onClick={() =>
+                    setDismissed((prev) => ({ ...prev, [group.key]: group.lastSeen }))
+                  }
+                  aria-label={`Dismiss warnings for ${group.componentName} ${group.hookName}`}
+                >
+                  Dismiss
+                </button>
+              </div>
+
+              {group.entries.map((entry) => (
+                <div
+                  key={entry.key}
+                  style={
+                    entry.severity === "error"
+                      ? { ...styles.entry, ...styles.errorEntry }
+                      : styles.entry
+                  }
+                >
+                  <div>
+                    <strong>{entry.code}</strong> {entry.message}
+                    {entry.count > 1 && <span style={styles.muted}> ×{entry.count}</span>}
+                  </div>
+                  {entry.ancestry && entry.ancestry.path.length > 1 && (
+                    <div style={styles.muted}>
+                      {entry.ancestry.path.join(" › ")}
+                      {entry.ancestry.key !== undefined && ` (key ${entry.ancestry.key})`}
+                    </div>
+                  )}
+                  {entry.location && (
+                    <div style={styles.muted}>
+                      {entry.location.file}:{entry.location.line}:{entry.location.column}
+                    </div>
+                  )}
+                  {entry.details && <div style={styles.muted}>{entry.details}</div>}
+                  {entry.fix && <div style={styles.fix}>Fix: {entry.fix}</div>}
+                </div>
+              ))}
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * SafeHooksProvider - Subtree-scoped configuration for the safe hooks.
+ *
+ * Lets a whole feature area tighten or relax rules and thresholds, or
+ * silence a noisy third-party subtree, without editing each call site.
+ */
+
+import { useContext, useRef } from "react";
+import type { ReactNode } from "react";
+import {
+  __DEV__,
+  SafeHooksScopeContext,
+  mergeScope,
+  isSameScope,
+  type SafeHooksScope,
+  type SafeHooksScopeConfig,
+} from "../internal";
+
+/**
+ * Props for SafeHooksProvider.
+ */
+export interface SafeHooksProviderProps {
+  /** Configuration for this subtree, merged over any enclosing provider */
+  config: SafeHooksScopeConfig;
+  /** The subtree the configuration applies to */
+  children?: ReactNode;
+}
+
+/**
+ * Applies rule levels and thresholds to every safe hook in its subtree.
+ *
+ * Settings are resolved in this order, most specific first:
+ * per-call options, the nearest provider (merged over its ancestors),
+ * configureSafeHooks, then the built-in defaults.
+ *
+ * In production mode, this renders its children unchanged.
+ *
+ * @example
+ * ```tsx
+ * <SafeHooksProvider config={{ rules: { "stale-closure": "error" } }}>
+ *   <Checkout />
+ * </SafeHooksProvider>
+ *
+ * <SafeHooksProvider config={{ enabled: false }}>
+ *   <ThirdPartyWidget />
+ * </SafeHooksProvider>
+ * ```
+ */
+export function SafeHooksProvider({ config, children }: SafeHooksProviderProps) {
+  if (!__DEV__) {
+    return <>{children}</>;
+  }
+
+  /* eslint-disable react-hooks/rules-of-hooks */
+  const parent = useContext(SafeHooksScopeContext);
+  const scopeRef = useRef<SafeHooksScope | null>(null);
+
+  // Keep the context value while the settings stay the same, so an inline
+  // config object does not re-render every descendant that uses a safe hook
+  const merged = mergeScope(parent, config);
+  if (scopeRef.current === null || !isSameScope(scopeRef.current, merged)) {
+    scopeRef.current = merged;
+  }
+  const scope = scopeRef.current;
+  /* eslint-enable react-hooks/rules-of-hooks */
+
+  return (
+    <SafeHooksScopeContext.Provider value={scope}>
+      {children}
+    </SafeHooksScopeContext.Provider>
+  );
+}
@@ -5,8 +5,19 @@
 export { useIsMounted } from "./useIsMounted";
 export { useSafeState } from "./useSafeState";
 export { useSafeEffect } from "./useSafeEffect";
+export { useSafeAsyncEffect } from "./useSafeAsyncEffect";
+export {
+  useSafeAsync,
+  type SafeAsyncOptions,
+  type SafeAsyncResult,
+  type SafeAsyncStatus,
+} from "./useSafeAsync";
 export { useSafeCallback } from "./useSafeCallback";
 export { useSafeMemo } from "./useSafeMemo";
+export {
+  useSafeEventCallback,
+  type SafeEventCallbackOptions,
+} from "./useSafeEventCallback";
 export { useSafeRef, type SafeRefOptions } from "./useSafeRef";
 export { useSafeLayoutEffect, type SafeLayoutEffectOptions } from "./useSafeLayoutEffect";
 export { useSafeReducer, type SafeReducerOptions } from "./useSafeReducer";
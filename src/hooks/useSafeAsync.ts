@@ -0,0 +1,258 @@
+/**
+ * useSafeAsync - Async data hook with abort and latest-wins semantics.
+ *
+ * Calls an async function when the dependencies change and exposes its
+ * status, result and error. In-flight calls are aborted when superseded, and
+ * only the latest call can write its result.
+ */
+
+import { useState, useCallback, useRef, useEffect } from "react";
+import type { DependencyList } from "react";
+import { useSafeEffect } from "./useSafeEffect";
+import {
+  __DEV__,
+  warn,
+  useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
+  type SafeHooksRules,
+} from "../internal";
+
+/**
+ * Status of the latest call of a useSafeAsync function.
+ */
+export type SafeAsyncStatus = "pending" | "success" | "error";
+
+/**
+ * Value returned by useSafeAsync.
+ */
+export interface SafeAsyncResult<T> {
+  /** Status of the latest call */
+  status: SafeAsyncStatus;
+  /** Result of the last successful call; kept while a new call is pending */
+  data: T | undefined;
+  /** Rejection reason of the latest call, when its status is "error" */
+  error: unknown;
+  /** Aborts the pending call, if any, and calls the function again */
+  reload: () => void;
+}
+
+/**
+ * Options for useSafeAsync hook.
+ */
+export interface SafeAsyncOptions {
+  /** Name to identify this resource in warning messages */
+  name?: string;
+  /** Labels for the dependency array, used in warnings instead of indices */
+  depNames?: readonly string[];
+  /** Rule levels for this hook call, overriding the global configuration */
+  rules?: SafeHooksRules;
+}
+
+/**
+ * A result that was discarded because its call was no longer the latest.
+ */
+type DiscardedResult =
+  /** The call resolved after the component unmounted */
+  | { reason: "unmounted"; callId: number }
+  /** The call resolved after a newer call had already settled */
+  | { reason: "out-of-order"; callId: number; newerCallId: number };
+
+type AsyncState<T> = Omit<SafeAsyncResult<T>, "reload">;
+
+/**
+ * Shared implementation of useSafeAsync.
+ * Returns the state and a function that starts a new call, aborting the
+ * previous one. Calls that are not the latest never write their result.
+ *
+ * @param fn - The async function
+ * @param onDiscarded - Called when a resolved result is discarded
+ * @returns The state and the start function
+ */
+function useLatestAsyncCall<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  onDiscarded?: (discarded: DiscardedResult) => void
+): [AsyncState<T>, () => void] {
+  const [state, setState] = useState<AsyncState<T>>({
+    status: "pending",
+    data: undefined,
+    error: undefined,
+  });
+  const fnRef = useRef(fn);
+  const onDiscardedRef = useRef(onDiscarded);
+  const isMountedRef = useRef(false);
+  // Latest call, and the id of the latest call that wrote its result
+  const callRef = useRef<{ id: number; controller: AbortController } | null>(null);
+  const settledIdRef = useRef(0);
+
+  // Runs before the effect that starts calls, so they use this render's fn
+  useEffect(() => {
+    fnRef.current = fn;
+    onDiscardedRef.current = onDiscarded;
+  });
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      callRef.current?.controller.abort();
+    };
+  }, []);
+
+  const start = useCallback(() => {
+    callRef.current?.controller.abort();
+    const id = (callRef.current?.id ?? 0) + 1;
+    const controller = new AbortController();
+    callRef.current = { id, controller };
+    setState((prev) => (prev.status === "pending" ? prev : { ...prev, status: "pending" }));
+
+    /**
+     * Writes the result of the call if it is still the latest one.
+     * Rejections of aborted calls are dropped silently, since they are
+     * usually caused by the abort.
+     */
+    const settle = (next: (prev: AsyncState<T>) => AsyncState<T>, rejected: boolean) => {
+      if (!isMountedRef.current) {
+        if (!rejected) {
+          onDiscardedRef.current?.({ reason: "unmounted", callId: id });
+        }
+        return;
+      }
+
+      if (callRef.current?.id !== id) {
+        if (!rejected && settledIdRef.current > id) {
+          onDiscardedRef.current?.({
+            reason: "out-of-order",
+            callId: id,
+            newerCallId: settledIdRef.current,
+          });
+        }
+        return;
+      }
+
+      if (rejected && controller.signal.aborted) {
+        return;
+      }
+
+      settledIdRef.current = id;
+      setState(next);
+    };
+
+    new Promise<T>((resolve) => resolve(fnRef.current(controller.signal))).then(
+      (data) => settle(() => ({ status: "success", data, error: undefined }), false),
+      (error: unknown) => settle((prev) => ({ status: "error", data: prev.data, error }), true)
+    );
+  }, []);
+
+  return [state, start];
+}
+
+/**
+ * Calls an async function when the dependencies change and tracks its result.
+ *
+ * The function receives an AbortSignal. Starting a new call (because the
+ * dependencies changed or reload was called) aborts the previous one, and
+ * unmounting aborts the pending call. Only the latest call can write its
+ * result, so slow responses never overwrite newer data. The previous data is
+ * kept while a new call is pending and after it fails.
+ *
+ * In development mode, this hook:
+ * - Performs the same dependency checks as useSafeEffect
+ * - Warns when a call resolves after the component unmounted
+ * - Warns when a call resolves after a newer call already did
+ *
+ * Both warnings mean the function ignores its abort signal.
+ *
+ * @param fn - Async function receiving an AbortSignal
+ * @param deps - Dependency array; the function is called again when it changes
+ * @param options - Configuration options
+ * @returns The status, data and error of the latest call, and a reload function
+ *
+ * @example
+ * ```tsx
+ * function UserProfile({ userId }) {
+ *   const { status, data: user, error, reload } = useSafeAsync(
+ *     async (signal) => {
+ *       const response = await fetch(`/api/users/${userId}`, { signal });
+ *       return response.json();
+ *     },
+ *     [userId]
+ *   );
+ *
+ *   if (status === "error") return <Retry error={error} onRetry={reload} />;
+ *   return <div>{user?.name}</div>;
+ * }
+ * ```
+ */
+export function useSafeAsync<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList,
+  options?: SafeAsyncOptions
+): SafeAsyncResult<T> {
+  // In production, run the calls without diagnostics
+  if (!__DEV__) {
+    const [state, start] = useLatestAsyncCall(fn);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    useEffect(start, deps);
+    return { ...state, reload: start };
+  }
+
+  // Development-only tracking and warnings
+  /* eslint-disable react-hooks/rules-of-hooks */
+  const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
+  const hookName = options?.name ?? "useSafeAsync";
+  const scope = useSafeHooksScope(options?.rules);
+
+  const [state, start] = useLatestAsyncCall(fn, (discarded) => {
+    if (discarded.reason === "unmounted") {
+      warn({
+        rule: "async-result-after-unmount",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        async: true,
+        message: "Async result arrived after unmount.",
+        details:
+          `Call #${discarded.callId} of ${hookName} resolved after the component ` +
+          "unmounted. Its signal had been aborted, but the work did not stop. " +
+          "The result was discarded.",
+        fix:
+          "Pass the signal to fetch and other abortable APIs, and check " +
+          "signal.aborted between steps so cancelled work stops early.",
+      });
+    } else {
+      warn({
+        rule: "async-out-of-order",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        async: true,
+        message: "Async result arrived out of order.",
+        details:
+          `Call #${discarded.callId} of ${hookName} resolved after the newer call ` +
+          `#${discarded.newerCallId}. The result was discarded; without latest-wins ` +
+          "handling it would have overwritten newer data.",
+        fix:
+          "Pass the signal to fetch and other abortable APIs, so superseded calls " +
+          "are cancelled instead of finishing late.",
+      });
+    }
+  });
+
+  // The dependency checks are shared with useSafeEffect
+  useSafeEffect(start, deps, {
+    name: hookName,
+    depNames: options?.depNames,
+    rules: options?.rules,
+  });
+  /* eslint-enable react-hooks/rules-of-hooks */
+
+  return { ...state, reload: start };
+}
@@ -0,0 +1,167 @@
+/**
+ * useSafeAsyncEffect - Async effect hook with abort and race protection.
+ *
+ * Runs an async effect with an AbortSignal that is aborted when the
+ * dependencies change or the component unmounts, and reports rejections
+ * through the warning system.
+ */
+
+import { useEffect } from "react";
+import type { DependencyList } from "react";
+import type { AsyncEffectCallback, SafeAsyncEffectOptions } from "../types";
+import { useSafeEffect } from "./useSafeEffect";
+import {
+  __DEV__,
+  warn,
+  useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
+  formatDependencyValue,
+} from "../internal";
+
+/**
+ * Starts one run of an async effect.
+ * A cleanup function the run resolves to is registered if the run is still
+ * current, and called right away if it was superseded in the meantime.
+ *
+ * @param effect - The async effect
+ * @param onRejected - Called when the run rejects before it was aborted
+ * @returns Cleanup that aborts the run and calls the cleanup it resolved to
+ */
+function startAsyncEffect(
+  effect: AsyncEffectCallback,
+  onRejected: (error: unknown) => void
+): () => void {
+  const controller = new AbortController();
+  let cleanup: (() => void) | undefined;
+
+  new Promise<void | (() => void)>((resolve) => resolve(effect(controller.signal))).then(
+    (result) => {
+      if (typeof result !== "function") {
+        return;
+      }
+      if (controller.signal.aborted) {
+        result();
+      } else {
+        cleanup = result;
+      }
+    },
+    (error: unknown) => {
+      // Errors of aborted runs are usually caused by the abort itself
+      if (!controller.signal.aborted) {
+        onRejected(error);
+      }
+    }
+  );
+
+  return () => {
+    controller.abort();
+    cleanup?.();
+  };
+}
+
+/**
+ * Describes a rejection reason, for warning messages.
+ *
+ * @param error - The rejection reason
+ * @returns E.g. "TypeError: Failed to fetch"
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : formatDependencyValue(error);
+}
+
+/**
+ * Runs an async effect with an AbortSignal and race protection.
+ *
+ * The effect receives a signal that is aborted when the dependencies change
+ * or the component unmounts. Pass it to fetch and other abortable APIs, and
+ * check `signal.aborted` before setting state after an await. The effect may
+ * resolve to a cleanup function; if its run was superseded before it
+ * resolved, the cleanup is called immediately.
+ *
+ * In development mode, this hook:
+ * - Performs the same dependency checks as useSafeEffect
+ * - Reports rejections of runs that were not aborted as warnings
+ *
+ * In production mode, rejections of runs that were not aborted are left
+ * unhandled, as with any other promise.
+ *
+ * @param effect - Async effect callback receiving an AbortSignal
+ * @param deps - Dependency array (same as useEffect)
+ * @param options - Configuration options (same as useSafeEffect)
+ *
+ * @example
+ * ```tsx
+ * function UserProfile({ userId }) {
+ *   const [user, setUser] = useSafeState(null);
+ *
+ *   useSafeAsyncEffect(
+ *     async (signal) => {
+ *       const response = await fetch(`/api/users/${userId}`, { signal });
+ *       const data = await response.json();
+ *       if (!signal.aborted) {
+ *         setUser(data);
+ *       }
+ *     },
+ *     [userId],
+ *     { name: "fetchUser" }
+ *   );
+ *
+ *   return <div>{user?.name}</div>;
+ * }
+ * ```
+ */
+export function useSafeAsyncEffect(
+  effect: AsyncEffectCallback,
+  deps?: DependencyList,
+  options?: SafeAsyncEffectOptions
+): void {
+  // In production, run the effect without diagnostics
+  if (!__DEV__) {
+    useEffect(
+      () =>
+        startAsyncEffect(effect, (error) => {
+          throw error;
+        }),
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+      deps
+    );
+    return;
+  }
+
+  // Development-only tracking and warnings
+  /* eslint-disable react-hooks/rules-of-hooks */
+  const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
+  const hookName = options?.name ?? "useSafeAsyncEffect";
+  const scope = useSafeHooksScope(options?.rules);
+
+  // The dependency checks are shared with useSafeEffect
+  useSafeEffect(
+    () =>
+      startAsyncEffect(effect, (error) => {
+        warn({
+          rule: "async-effect-rejection",
+          componentName,
+          ancestry,
+          location,
+          hookName,
+          rules: scope.rules,
+          async: true,
+          message: "Async effect rejected.",
+          details:
+            `${hookName} rejected with ${describeError(error)}. ` +
+            "Nothing handled the error, so the component may be stuck in a loading state.",
+          fix:
+            "Catch errors inside the effect (try/catch) and store them in state. " +
+            "Errors thrown after the signal was aborted are ignored, so there is no need " +
+            "to catch AbortError.",
+        });
+      }),
+    deps,
+    { ...options, name: hookName }
+  );
+  /* eslint-enable react-hooks/rules-of-hooks */
+}
@@ -5,20 +5,35 @@
  * and excessive callback identity changes.
  */
 
-import { useCallback, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import type { DependencyList } from "react";
 import type { SafeCallbackOptions } from "../types";
 import {
   __DEV__,
-  createWarning,
   warnOnce,
   createWarningKey,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
   usePrevious,
   useRenderCount,
   detectStaleClosure,
+  findStaleCapturedDeps,
+  formatDependencyChanges,
   isExcessiveCallbackChange,
   detectUnstableDeps,
+  markMemoizedFunction,
+  createDependencyStabilityTracker,
+  reportDependencyStability,
+  type HookWarningContext,
+  type CallbackGeneration,
+  type SafeHooksRules,
+  trackDependencyChanges,
+  formatDepsChanges,
+  logDependencyChanges,
+  toDeepCompareOptions,
+  type DepsFormatOptions,
 } from "../internal";
 
 /**
@@ -76,18 +91,50 @@ export function useSafeCallback<T extends (...args: unknown[]) => unknown>(
   // Development-only tracking and warnings
   /* eslint-disable react-hooks/rules-of-hooks */
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeCallback";
+  const scope = useSafeHooksScope(options?.rules);
   const renderCount = useRenderCount();
   const prevDeps = usePrevious(deps);
   const prevCallbackRef = useRef<T | undefined>(undefined);
   const changeCountRef = useRef(0);
+  // Consecutive renders in which each function dependency was recreated
+  const functionStreaksRef = useRef<number[]>([]);
+  const stabilityTrackerRef = useRef(createDependencyStabilityTracker());
+  // Generation, deps and rules of the latest committed render
+  const latestRef = useRef<(CallbackGeneration & { rules: SafeHooksRules }) | null>(null);
 
   const warnOnStaleClosure = options?.warnOnStaleClosure ?? true;
+  const logChanges = options?.logChanges ?? false;
+  const depsFormat: DepsFormatOptions = {
+    depNames: options?.depNames,
+    deepCompare: toDeepCompareOptions(options?.deepCompareDeps),
+  };
+  const hookContext: HookWarningContext = {
+    hookName,
+    componentName,
+    ancestry,
+    location,
+    rules: scope.rules,
+    depsFormat,
+  };
 
   // Track callback identity changes
   if (prevCallbackRef.current !== memoizedCallback) {
     changeCountRef.current += 1;
     prevCallbackRef.current = memoizedCallback;
+
+    if (logChanges && changeCountRef.current > 1) {
+      logDependencyChanges({
+        componentName,
+        hookName,
+        event: "was recreated",
+        deps,
+        prevDeps,
+        depNames: depsFormat.depNames,
+      });
+    }
   }
 
   // Check for stale closure issues
@@ -95,65 +142,134 @@ export function useSafeCallback<T extends (...args: unknown[]) => unknown>(
     const staleResult = detectStaleClosure(
       deps,
       prevDeps,
-      changeCountRef.current > 1
+      changeCountRef.current > 1,
+      depsFormat.depNames
     );
 
     if (staleResult.isStale) {
-      warnOnce(
-        createWarningKey(hookName, "stale-closure", componentName),
-        createWarning({
-          componentName,
-          hookName,
-          message: "Potential stale closure detected.",
-          details: staleResult.description,
-          fix:
-            "Make sure all values used inside the callback are included in the " +
-            "dependency array. If you're intentionally using stale values, " +
-            "consider using a ref instead.",
-        })
-      );
+      warnOnce(createWarningKey(hookName, "stale-closure", componentName), {
+        rule: "stale-closure",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Potential stale closure detected.",
+        details: staleResult.description,
+        fix:
+          "Make sure all values used inside the callback are included in the " +
+          "dependency array. If you're intentionally using stale values, " +
+          "consider using a ref instead.",
+      });
     }
   }
 
   // Check for unstable dependencies
   if (prevDeps !== undefined) {
-    const unstableIndices = detectUnstableDeps(deps, prevDeps);
+    const changes = trackDependencyChanges(deps, prevDeps);
+    const unstableIndices = detectUnstableDeps(deps, prevDeps, depsFormat.deepCompare);
     if (unstableIndices.length > 0 && renderCount > 2) {
-      warnOnce(
-        createWarningKey(hookName, "unstable-deps", componentName),
-        createWarning({
-          componentName,
-          hookName,
-          message: "Potentially unstable dependencies detected.",
-          details:
-            `Dependencies at indices [${unstableIndices.join(", ")}] appear to be ` +
-            "recreated on every render despite having the same content.",
-          fix:
-            "Memoize objects, arrays, or callbacks in dependencies with useMemo/useCallback, " +
-            "or move them outside the component if they don't depend on props/state.",
-        })
-      );
-    }
-  }
-
-  // Check for excessive callback changes
-  if (isExcessiveCallbackChange(changeCountRef.current, renderCount)) {
-    warnOnce(
-      createWarningKey(hookName, "excessive-changes", componentName),
-      createWarning({
+      warnOnce(createWarningKey(hookName, "unstable-deps", componentName), {
+        rule: "unstable-deps",
         componentName,
+        ancestry,
+        location,
         hookName,
-        message: "Callback is changing too frequently.",
+        rules: scope.rules,
+        message: "Potentially unstable dependencies detected.",
         details:
-          `The callback has changed ${changeCountRef.current} times in ${renderCount} renders. ` +
-          "This defeats the purpose of memoization and may cause unnecessary re-renders in child components.",
+          "These dependencies appear to be recreated on every render despite " +
+          `having the same content: ${formatDependencyChanges(
+            unstableIndices,
+            deps,
+            prevDeps,
+            depsFormat
+          )}.`,
         fix:
-          "Check that all dependencies are stable. Avoid inline object/array/function " +
-          "literals in the dependency array. Consider if memoization is even needed.",
-      })
-    );
+          "Memoize objects, arrays, or callbacks in dependencies with useMemo/useCallback, " +
+          "or move them outside the component if they don't depend on props/state.",
+      });
+    }
+
+    // Check for dependencies that never stay equal between renders
+    reportDependencyStability(hookContext, changes, deps, prevDeps, {
+      functionStreaks: functionStreaksRef.current,
+      stability: stabilityTrackerRef.current,
+    });
+  }
+
+  // Check for excessive callback changes
+  if (
+    isExcessiveCallbackChange(
+      changeCountRef.current,
+      renderCount,
+      scope.thresholds.callbackChanges
+    )
+  ) {
+    warnOnce(createWarningKey(hookName, "excessive-changes", componentName), {
+      rule: "excessive-changes",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules: scope.rules,
+      message: "Callback is changing too frequently.",
+      details:
+        `The callback has changed ${changeCountRef.current} times in ${renderCount} renders. ` +
+        "This defeats the purpose of memoization and may cause unnecessary re-renders in child components." +
+        (prevDeps !== undefined
+          ? " " +
+            formatDepsChanges(trackDependencyChanges(deps, prevDeps), deps, prevDeps, depsFormat)
+          : ""),
+      fix:
+        "Check that all dependencies are stable. Avoid inline object/array/function " +
+        "literals in the dependency array. Consider if memoization is even needed. " +
+        "For event handlers that only need the latest values, use useSafeEventCallback, " +
+        "which keeps one identity.",
+    });
   }
+  useEffect(() => {
+    latestRef.current = { generation: renderCount, deps, rules: scope.rules };
+  });
+
+  // Stamp the callback with the render that created it, so calls made after
+  // newer renders can tell which captured values are outdated
+  const stampedCallback = useMemo(() => {
+    const captured = { generation: renderCount, deps };
+
+    const stamped = function (this: unknown, ...args: unknown[]) {
+      const latest = latestRef.current;
+      const staleIndices = warnOnStaleClosure
+        ? findStaleCapturedDeps(captured, latest)
+        : [];
+
+      if (latest && staleIndices.length > 0) {
+        warnOnce(createWarningKey(hookName, "stale-invocation", componentName), {
+          rule: "stale-invocation",
+          componentName,
+          ancestry,
+          location,
+          hookName,
+          rules: latest.rules,
+          message: "Callback from an earlier render was called with outdated values.",
+          details:
+            `The callback was created on render ${captured.generation} but called after ` +
+            `render ${latest.generation}. Stale values at call time (captured → current): ` +
+            `${formatDependencyChanges(staleIndices, latest.deps, captured.deps, depsFormat)}.`,
+          fix:
+            "Something kept a reference to an old callback (e.g. a listener or timer " +
+            "registered once). Re-register it when the callback changes, or read the " +
+            "latest values from a ref inside the callback.",
+        });
+      }
+
+      return memoizedCallback.apply(this, args);
+    } as T;
+    markMemoizedFunction(stamped);
+    return stamped;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [memoizedCallback]);
   /* eslint-enable react-hooks/rules-of-hooks */
 
-  return memoizedCallback;
+  return stampedCallback;
 }
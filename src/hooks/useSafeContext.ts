@@ -8,9 +8,13 @@
 import { useContext, Context } from "react";
 import {
   __DEV__,
-  createWarning,
   warn,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
+  type WarningConfig,
+  type SafeHooksRules,
 } from "../internal";
 
 /**
@@ -19,8 +23,13 @@ import {
 export interface SafeContextOptions {
   /** Name to identify this context in warning messages */
   name?: string;
-  /** Whether to throw an error instead of just warning - default false */
+  /**
+   * Whether to throw an error instead of just warning - default false.
+   * Shorthand for `rules: { "missing-provider": "throw" }`.
+   */
   throwOnMissing?: boolean;
+  /** Rule levels for this hook call, overriding the global configuration */
+  rules?: SafeHooksRules;
 }
 
 /**
@@ -69,27 +78,35 @@ export function useSafeContext<T>(
 
   /* eslint-disable react-hooks/rules-of-hooks */
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeContext";
   const throwOnMissing = options?.throwOnMissing ?? false;
+  const scope = useSafeHooksScope(
+    throwOnMissing
+      ? { "missing-provider": "throw", ...options?.rules }
+      : options?.rules
+  );
 
   // Check if value is undefined (common pattern for "no provider")
   if (value === undefined) {
-    const message = createWarning({
+    const warning: WarningConfig = {
+      rule: "missing-provider",
       componentName,
+      ancestry,
+      location,
       hookName,
+      rules: scope.rules,
       message: "Context value is undefined. This usually means the component is not wrapped in a Provider.",
       details:
         "Make sure the component that uses this context is a descendant of the corresponding Provider.",
       fix:
         "Wrap your component tree with the appropriate context provider, " +
         "or check that you're importing the correct context.",
-    });
+    };
 
-    if (throwOnMissing) {
-      throw new Error(message);
-    } else {
-      warn(message);
-    }
+    // Throws a SafeHooksError when the rule level resolves to "throw"
+    warn(warning);
   }
   /* eslint-enable react-hooks/rules-of-hooks */
 
@@ -10,18 +10,51 @@ import type { EffectCallback, DependencyList } from "react";
 import type { SafeEffectOptions } from "../types";
 import {
   __DEV__,
-  createWarning,
   warn,
   warnOnce,
   createWarningKey,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
   usePrevious,
   useRenderCount,
   trackDependencyChanges,
   detectUnstableDeps,
+  createDependencyStabilityTracker,
+  reportDependencyStability,
+  reportEffectLoop,
+  reportInvalidEffectReturn,
+  type HookWarningContext,
+  formatDependencyChanges,
+  toDeepCompareOptions,
+  type DepsFormatOptions,
   formatDepsChanges,
+  logDependencyChanges,
+  createEffectRunTracker,
+  findStaleCapturedDeps,
+  runInstrumented,
+  createResourceTracker,
+  findLeakedResources,
+  formatLeakedResources,
+  releaseResourceTracker,
+  type CallbackGeneration,
+  type CallbackWrapper,
+  type InstrumentedCallback,
 } from "../internal";
 
+/**
+ * Describes how a tracked callback was registered, for warning messages.
+ *
+ * @param registration - The registration
+ * @returns E.g. "setInterval callback" or '"resize" listener'
+ */
+function describeRegistration(registration: InstrumentedCallback): string {
+  return registration.source === "addEventListener"
+    ? `"${registration.eventType}" listener`
+    : `${registration.source} callback`;
+}
+
 /**
  * A safe wrapper around useEffect that detects common issues.
  *
@@ -30,6 +63,11 @@ import {
  * - Warns about potentially missing dependencies
  * - Tracks cleanup execution correctness
  * - Warns if effect updates state after unmount
+ * - Warns when the effect re-runs in a feedback loop
+ * - With `watch`, warns when timers or listeners it registered fire with
+ *   outdated values
+ * - With `detectLeaks`, warns about timers, listeners, observers and
+ *   AbortControllers the cleanup did not dispose of
  *
  * In production mode, this is identical to useEffect.
  *
@@ -69,29 +107,59 @@ export function useSafeEffect(
   // Development-only tracking and warnings
   /* eslint-disable react-hooks/rules-of-hooks */
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeEffect";
+  const scope = useSafeHooksScope(options?.rules);
   const renderCount = useRenderCount();
   const prevDeps = usePrevious(deps);
   const isMountedRef = useRef(true);
+  // Dependencies of the last run of the effect, for change logging
+  const lastRunRef = useRef<{ deps: DependencyList | undefined } | null>(null);
+  // Consecutive renders in which each function dependency was recreated
+  const functionStreaksRef = useRef<number[]>([]);
+  const stabilityTrackerRef = useRef(createDependencyStabilityTracker());
+  // Recent runs of the effect, for feedback-loop detection
+  const runTrackerRef = useRef(createEffectRunTracker());
+  // Watched values of the latest committed render
+  const latestWatchRef = useRef<{ generation: number; values: Record<string, unknown> } | null>(
+    null
+  );
 
   const warnOnMissingDeps = options?.warnOnMissingDeps ?? true;
   const warnOnChangingDeps = options?.warnOnChangingDeps ?? true;
+  const logChanges = options?.logChanges ?? false;
+  const watch = options?.watch;
+  const detectLeaks = options?.detectLeaks ?? false;
+  const depsFormat: DepsFormatOptions = {
+    depNames: options?.depNames,
+    deepCompare: toDeepCompareOptions(options?.deepCompareDeps),
+  };
+  const hookContext: HookWarningContext = {
+    hookName,
+    componentName,
+    ancestry,
+    location,
+    rules: scope.rules,
+    depsFormat,
+  };
 
   // Track if deps is omitted (run on every render) - warn once
   if (deps === undefined && warnOnMissingDeps && renderCount === 1) {
-    warnOnce(
-      createWarningKey(hookName, "no-deps", componentName),
-      createWarning({
-        componentName,
-        hookName,
-        message: "Effect has no dependency array.",
-        details:
-          "This effect will run after every render, which may cause performance issues.",
-        fix:
-          "Add a dependency array. Use [] for effects that should only run once, " +
-          "or list all values from the component scope that the effect uses.",
-      })
-    );
+    warnOnce(createWarningKey(hookName, "no-deps", componentName), {
+      rule: "no-deps",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules: scope.rules,
+      message: "Effect has no dependency array.",
+      details:
+        "This effect will run after every render, which may cause performance issues.",
+      fix:
+        "Add a dependency array. Use [] for effects that should only run once, " +
+        "or list all values from the component scope that the effect uses.",
+    });
   }
 
   // Check for dependency array length changes
@@ -99,37 +167,51 @@ export function useSafeEffect(
     const changes = trackDependencyChanges(deps, prevDeps);
 
     if (changes.lengthChanged) {
-      warn(
-        createWarning({
-          componentName,
-          hookName,
-          message: "Dependency array length changed between renders.",
-          details: formatDepsChanges(changes),
-          fix:
-            "Ensure your dependency array has a stable length. " +
-            "Conditional dependencies should be handled inside the effect, not in the array.",
-        })
-      );
+      warn({
+        rule: "deps-length",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Dependency array length changed between renders.",
+        details: formatDepsChanges(changes, deps, prevDeps, depsFormat),
+        fix:
+          "Ensure your dependency array has a stable length. " +
+          "Conditional dependencies should be handled inside the effect, not in the array.",
+      });
     }
 
     // Check for unstable dependencies (objects/arrays recreated each render)
-    const unstableIndices = detectUnstableDeps(deps, prevDeps);
+    const unstableIndices = detectUnstableDeps(deps, prevDeps, depsFormat.deepCompare);
     if (unstableIndices.length > 0 && renderCount > 2) {
-      warnOnce(
-        createWarningKey(hookName, "unstable-deps", componentName),
-        createWarning({
-          componentName,
-          hookName,
-          message: "Potentially unstable dependencies detected.",
-          details:
-            `Dependencies at indices [${unstableIndices.join(", ")}] appear to be ` +
-            "recreated on every render despite having the same content.",
-          fix:
-            "Memoize objects, arrays, or callbacks with useMemo/useCallback, " +
-            "or move them outside the component if they don't depend on props/state.",
-        })
-      );
+      warnOnce(createWarningKey(hookName, "unstable-deps", componentName), {
+        rule: "unstable-deps",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Potentially unstable dependencies detected.",
+        details:
+          "These dependencies appear to be recreated on every render despite " +
+          `having the same content: ${formatDependencyChanges(
+            unstableIndices,
+            deps,
+            prevDeps,
+            depsFormat
+          )}.`,
+        fix:
+          "Memoize objects, arrays, or callbacks with useMemo/useCallback, " +
+          "or move them outside the component if they don't depend on props/state.",
+      });
     }
+
+    // Check for dependencies that never stay equal between renders
+    reportDependencyStability(hookContext, changes, deps, prevDeps, {
+      functionStreaks: functionStreaksRef.current,
+      stability: stabilityTrackerRef.current,
+    });
   }
 
   // Track mounted state for unmount warnings
@@ -140,15 +222,111 @@ export function useSafeEffect(
     };
   }, []);
 
+  // Runs before the effect below, so callbacks see the values of this commit
+  useEffect(() => {
+    latestWatchRef.current = watch ? { generation: renderCount, values: watch } : null;
+  });
+
   // Wrap the effect to track cleanup and async issues
   useEffect(() => {
-    // Execute the effect
-    const cleanup = effect();
+    if (logChanges && lastRunRef.current) {
+      logDependencyChanges({
+        componentName,
+        hookName,
+        event: "re-ran",
+        deps,
+        prevDeps: lastRunRef.current.deps,
+        depNames: depsFormat.depNames,
+      });
+    }
+    lastRunRef.current = { deps };
+
+    // Check for an effect that keeps triggering itself
+    reportEffectLoop(hookContext, runTrackerRef.current, deps, {
+      maxRuns: scope.thresholds.effectRuns,
+      windowMs: scope.thresholds.effectRunWindowMs,
+    });
+
+    // Execute the effect, instrumenting the timers, listeners and other
+    // resources it creates when requested
+    let wrap: CallbackWrapper | undefined;
+    if (watch) {
+      const watchNames = Object.keys(watch);
+      const captured: CallbackGeneration = {
+        generation: renderCount,
+        deps: watchNames.map((name) => watch[name]),
+      };
+
+      wrap = (callback, registration) =>
+        function (this: unknown, ...args: unknown[]) {
+          const latest = latestWatchRef.current;
+          const latestValues = latest
+            ? { generation: latest.generation, deps: watchNames.map((name) => latest.values[name]) }
+            : null;
+          const staleIndices = findStaleCapturedDeps(captured, latestValues);
+
+          if (latestValues && staleIndices.length > 0) {
+            warnOnce(createWarningKey(hookName, "stale-effect-callback", componentName), {
+              rule: "stale-effect-callback",
+              componentName,
+              ancestry,
+              location,
+              hookName,
+              rules: scope.rules,
+              message: "Timer or listener registered by an effect fired with outdated values.",
+              details:
+                `${hookName} registered a ${describeRegistration(registration)} on render ` +
+                `${captured.generation}, which fired after render ${latestValues.generation}. ` +
+                "Outdated values (captured → current): " +
+                `${formatDependencyChanges(staleIndices, latestValues.deps, captured.deps, {
+                  depNames: watchNames,
+                })}.`,
+              fix:
+                "Add the values to the dependency array so the timer or listener is " +
+                "registered again, use the functional form of state updates " +
+                "(setCount((c) => c + 1)), or read the latest value from a ref.",
+            });
+          }
+
+          return callback.apply(this, args);
+        };
+    }
+
+    const tracker = detectLeaks ? createResourceTracker() : undefined;
+    const instrumented = wrap !== undefined || tracker !== undefined;
+    const cleanup = instrumented ? runInstrumented(effect, { wrap, tracker }) : effect();
+
+    // Effects may only return a cleanup function or undefined
+    reportInvalidEffectReturn(hookContext, cleanup, "useSafeEffect");
 
     return () => {
       if (typeof cleanup === "function") {
         cleanup();
       }
+
+      if (tracker) {
+        const leaked = findLeakedResources(tracker);
+        if (leaked.length > 0) {
+          warnOnce(createWarningKey(hookName, "effect-leak", componentName), {
+            rule: "effect-leak",
+            componentName,
+            ancestry,
+            location,
+            hookName,
+            rules: scope.rules,
+            message: "Effect created resources that were not cleaned up.",
+            details:
+              `When ${hookName} was cleaned up, these resources it created were still ` +
+              `active: ${formatLeakedResources(leaked)}. They keep running after the ` +
+              "effect is gone and may update unmounted components or hold on to memory.",
+            fix:
+              "Return a cleanup function that disposes of everything the effect creates: " +
+              "clearInterval/clearTimeout, removeEventListener with the same listener, " +
+              "observer.disconnect() and controller.abort().",
+          });
+        }
+        releaseResourceTracker(tracker);
+      }
       // Mark as unmounted for any pending async operations
       isMountedRef.current = false;
     };
@@ -0,0 +1,122 @@
+/**
+ * useSafeEventCallback - Stable event handler that sees the latest values.
+ *
+ * Modeled on React's useEffectEvent: returns a function whose identity never
+ * changes and which always calls the callback of the latest render.
+ */
+
+import { useCallback, useInsertionEffect, useRef } from "react";
+import {
+  __DEV__,
+  warnOnce,
+  createWarningKey,
+  useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
+  getCurrentOwnerFiber,
+  getFiberComponentName,
+  type SafeHooksRules,
+} from "../internal";
+
+/**
+ * Options for useSafeEventCallback hook.
+ */
+export interface SafeEventCallbackOptions {
+  /** Name to identify this callback in warning messages */
+  name?: string;
+  /** Rule levels for this hook call, overriding the global configuration */
+  rules?: SafeHooksRules;
+}
+
+/**
+ * Returns a permanently stable function that calls the latest callback.
+ *
+ * Use it for event handlers and for logic called from effects that should
+ * read the latest props and state without being a dependency. The callback
+ * is swapped in after each commit, so the function must not be called
+ * during render.
+ *
+ * In development mode, this hook:
+ * - Warns when the function is called while a component is rendering
+ *
+ * @param callback - The callback to call, recreated freely on every render
+ * @param options - Configuration options
+ * @returns A function with a stable identity
+ *
+ * @example
+ * ```tsx
+ * function ChatRoom({ roomId, theme }) {
+ *   const onConnected = useSafeEventCallback(() => {
+ *     showNotification("Connected!", theme);
+ *   });
+ *
+ *   useSafeEffect(() => {
+ *     const connection = createConnection(roomId);
+ *     connection.on("connected", onConnected);
+ *     connection.connect();
+ *     return () => connection.disconnect();
+ *   }, [roomId, onConnected]);
+ * }
+ * ```
+ */
+export function useSafeEventCallback<T extends (...args: never[]) => unknown>(
+  callback: T,
+  options?: SafeEventCallbackOptions
+): T {
+  const callbackRef = useRef(callback);
+
+  // Swap in the latest callback before any layout effect or event can run
+  useInsertionEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  // In production, return the stable function without checks
+  if (!__DEV__) {
+    return useCallback(function (this: unknown, ...args: Parameters<T>) {
+      return callbackRef.current.apply(this, args);
+    } as T, []);
+  }
+
+  // Development-only tracking and warnings
+  /* eslint-disable react-hooks/rules-of-hooks */
+  const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
+  const hookName = options?.name ?? "useSafeEventCallback";
+  const scope = useSafeHooksScope(options?.rules);
+  const rulesRef = useRef(scope.rules);
+
+  useInsertionEffect(() => {
+    rulesRef.current = scope.rules;
+  });
+
+  const stableCallback = useCallback(function (this: unknown, ...args: Parameters<T>) {
+    const renderingFiber = getCurrentOwnerFiber();
+    if (renderingFiber) {
+      const renderingName = getFiberComponentName(renderingFiber) ?? "Anonymous";
+      warnOnce(createWarningKey(hookName, "event-callback-in-render", componentName), {
+        rule: "event-callback-in-render",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: rulesRef.current,
+        message: "Event callback was called during render.",
+        details:
+          `${hookName} was called while ${renderingName} was rendering. During render ` +
+          "it may still call the callback of the previous render, and calling it can " +
+          "cause side effects in the middle of rendering.",
+        fix:
+          "Only call the function from event handlers and effects. To compute a value " +
+          "during render, call a regular function or use useSafeMemo instead.",
+      });
+    }
+
+    return callbackRef.current.apply(this, args);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  } as T, []);
+  /* eslint-enable react-hooks/rules-of-hooks */
+
+  return stableCallback;
+}
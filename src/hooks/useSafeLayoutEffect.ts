@@ -9,16 +9,30 @@ import { useLayoutEffect, useEffect, useRef } from "react";
 import type { EffectCallback, DependencyList } from "react";
 import {
   __DEV__,
-  createWarning,
   warn,
   warnOnce,
   createWarningKey,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
   usePrevious,
   useRenderCount,
   trackDependencyChanges,
   detectUnstableDeps,
+  createDependencyStabilityTracker,
+  reportDependencyStability,
+  reportEffectLoop,
+  reportInvalidEffectReturn,
+  type HookWarningContext,
+  formatDependencyChanges,
+  toDeepCompareOptions,
+  type DepsFormatOptions,
   formatDepsChanges,
+  logDependencyChanges,
+  createEffectRunTracker,
+  type SafeHooksRules,
+  type DeepCompareOptions,
 } from "../internal";
 
 /**
@@ -31,6 +45,14 @@ export interface SafeLayoutEffectOptions {
   warnOnMissingDeps?: boolean;
   /** Whether to warn on changing deps length - default true */
   warnOnChangingDeps?: boolean;
+  /** Labels for the dependency array, used in warnings instead of indices */
+  depNames?: readonly string[];
+  /** Compare dependencies structurally to find recreated values - default false */
+  deepCompareDeps?: boolean | DeepCompareOptions;
+  /** Log every re-run with the dependencies that triggered it - default false */
+  logChanges?: boolean;
+  /** Rule levels for this hook call, overriding the global configuration */
+  rules?: SafeHooksRules;
 }
 
 /**
@@ -50,6 +72,7 @@ const canUseDOM = !!(
  * - Falls back to useEffect during SSR to avoid warnings
  * - Detects dependency array length changes
  * - Warns about missing dependencies
+ * - Warns when the effect re-runs in a feedback loop
  *
  * In production mode, this falls back to useEffect in SSR,
  * and uses useLayoutEffect in the browser.
@@ -93,30 +116,54 @@ export function useSafeLayoutEffect(
   // Development-only tracking and warnings
   /* eslint-disable react-hooks/rules-of-hooks */
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeLayoutEffect";
+  const scope = useSafeHooksScope(options?.rules);
   const renderCount = useRenderCount();
   const prevDeps = usePrevious(deps);
   const isMountedRef = useRef(true);
+  // Dependencies of the last run of the effect, for change logging
+  const lastRunRef = useRef<{ deps: DependencyList | undefined } | null>(null);
+  // Consecutive renders in which each function dependency was recreated
+  const functionStreaksRef = useRef<number[]>([]);
+  const stabilityTrackerRef = useRef(createDependencyStabilityTracker());
+  // Recent runs of the effect, for feedback-loop detection
+  const runTrackerRef = useRef(createEffectRunTracker());
 
   const warnOnMissingDeps = options?.warnOnMissingDeps ?? true;
   const warnOnChangingDeps = options?.warnOnChangingDeps ?? true;
+  const logChanges = options?.logChanges ?? false;
+  const depsFormat: DepsFormatOptions = {
+    depNames: options?.depNames,
+    deepCompare: toDeepCompareOptions(options?.deepCompareDeps),
+  };
+  const hookContext: HookWarningContext = {
+    hookName,
+    componentName,
+    ancestry,
+    location,
+    rules: scope.rules,
+    depsFormat,
+  };
 
   // Warn about missing dependency array
   if (deps === undefined && warnOnMissingDeps && renderCount === 1) {
-    warnOnce(
-      createWarningKey(hookName, "no-deps", componentName),
-      createWarning({
-        componentName,
-        hookName,
-        message: "Layout effect has no dependency array.",
-        details:
-          "This effect will run after every render, which may cause performance issues " +
-          "and layout thrashing.",
-        fix:
-          "Add a dependency array. Use [] for effects that should only run once, " +
-          "or list all values from the component scope that the effect uses.",
-      })
-    );
+    warnOnce(createWarningKey(hookName, "no-deps", componentName), {
+      rule: "no-deps",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules: scope.rules,
+      message: "Layout effect has no dependency array.",
+      details:
+        "This effect will run after every render, which may cause performance issues " +
+        "and layout thrashing.",
+      fix:
+        "Add a dependency array. Use [] for effects that should only run once, " +
+        "or list all values from the component scope that the effect uses.",
+    });
   }
 
   // Check for dependency array length changes
@@ -124,37 +171,51 @@ export function useSafeLayoutEffect(
     const changes = trackDependencyChanges(deps, prevDeps);
 
     if (changes.lengthChanged) {
-      warn(
-        createWarning({
-          componentName,
-          hookName,
-          message: "Dependency array length changed between renders.",
-          details: formatDepsChanges(changes),
-          fix:
-            "Ensure your dependency array has a stable length. " +
-            "Conditional dependencies should be handled inside the effect, not in the array.",
-        })
-      );
+      warn({
+        rule: "deps-length",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Dependency array length changed between renders.",
+        details: formatDepsChanges(changes, deps, prevDeps, depsFormat),
+        fix:
+          "Ensure your dependency array has a stable length. " +
+          "Conditional dependencies should be handled inside the effect, not in the array.",
+      });
     }
 
     // Check for unstable dependencies
-    const unstableIndices = detectUnstableDeps(deps, prevDeps);
+    const unstableIndices = detectUnstableDeps(deps, prevDeps, depsFormat.deepCompare);
     if (unstableIndices.length > 0 && renderCount > 2) {
-      warnOnce(
-        createWarningKey(hookName, "unstable-deps", componentName),
-        createWarning({
-          componentName,
-          hookName,
-          message: "Potentially unstable dependencies detected.",
-          details:
-            `Dependencies at indices [${unstableIndices.join(", ")}] appear to be ` +
-            "recreated on every render despite having the same content.",
-          fix:
-            "Memoize objects, arrays, or callbacks with useMemo/useCallback, " +
-            "or move them outside the component if they don't depend on props/state.",
-        })
-      );
+      warnOnce(createWarningKey(hookName, "unstable-deps", componentName), {
+        rule: "unstable-deps",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Potentially unstable dependencies detected.",
+        details:
+          "These dependencies appear to be recreated on every render despite " +
+          `having the same content: ${formatDependencyChanges(
+            unstableIndices,
+            deps,
+            prevDeps,
+            depsFormat
+          )}.`,
+        fix:
+          "Memoize objects, arrays, or callbacks with useMemo/useCallback, " +
+          "or move them outside the component if they don't depend on props/state.",
+      });
     }
+
+    // Check for dependencies that never stay equal between renders
+    reportDependencyStability(hookContext, changes, deps, prevDeps, {
+      functionStreaks: functionStreaksRef.current,
+      stability: stabilityTrackerRef.current,
+    });
   }
 
   // Track mounted state
@@ -167,8 +228,29 @@ export function useSafeLayoutEffect(
 
   // Execute the layout effect
   useIsomorphicLayoutEffect(() => {
+    if (logChanges && lastRunRef.current) {
+      logDependencyChanges({
+        componentName,
+        hookName,
+        event: "re-ran",
+        deps,
+        prevDeps: lastRunRef.current.deps,
+        depNames: depsFormat.depNames,
+      });
+    }
+    lastRunRef.current = { deps };
+
+    // Check for an effect that keeps triggering itself
+    reportEffectLoop(hookContext, runTrackerRef.current, deps, {
+      maxRuns: scope.thresholds.effectRuns,
+      windowMs: scope.thresholds.effectRunWindowMs,
+    });
+
     const cleanup = effect();
 
+    // Effects may only return a cleanup function or undefined
+    reportInvalidEffectReturn(hookContext, cleanup, "useSafeLayoutEffect");
+
     return () => {
       if (typeof cleanup === "function") {
         cleanup();
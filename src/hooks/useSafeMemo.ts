@@ -9,19 +9,27 @@ import type { DependencyList } from "react";
 import type { SafeMemoOptions } from "../types";
 import {
   __DEV__,
-  createWarning,
   warnOnce,
   createWarningKey,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
   usePrevious,
   useRenderCount,
   trackDependencyChanges,
+  formatDepsChanges,
+  logDependencyChanges,
   detectUnstableDeps,
+  markMemoizedFunction,
+  createDependencyStabilityTracker,
+  reportDependencyStability,
+  type HookWarningContext,
+  formatDependencyChanges,
+  toDeepCompareOptions,
+  type DepsFormatOptions,
 } from "../internal";
 
-/** Default threshold for excessive recomputations */
-const DEFAULT_RECOMPUTE_THRESHOLD = 10;
-
 /**
  * A safe wrapper around useMemo that detects common issues.
  *
@@ -64,82 +72,131 @@ export function useSafeMemo<T>(
   // Development-only tracking and warnings
   /* eslint-disable react-hooks/rules-of-hooks */
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeMemo";
+  const scope = useSafeHooksScope(options?.rules);
   const renderCount = useRenderCount();
   const prevDeps = usePrevious(deps);
   const recomputeCountRef = useRef(0);
+  // Consecutive renders in which each function dependency was recreated
+  const functionStreaksRef = useRef<number[]>([]);
+  const stabilityTrackerRef = useRef(createDependencyStabilityTracker());
 
   const warnOnRecompute = options?.warnOnRecompute ?? true;
-  const recomputeThreshold = options?.recomputeThreshold ?? DEFAULT_RECOMPUTE_THRESHOLD;
+  const logChanges = options?.logChanges ?? false;
+  const recomputeThreshold = options?.recomputeThreshold ?? scope.thresholds.recompute;
+  const depsFormat: DepsFormatOptions = {
+    depNames: options?.depNames,
+    deepCompare: toDeepCompareOptions(options?.deepCompareDeps),
+  };
+  const hookContext: HookWarningContext = {
+    hookName,
+    componentName,
+    ancestry,
+    location,
+    rules: scope.rules,
+    depsFormat,
+  };
 
   // Check for dependency array length changes
   if (prevDeps !== undefined) {
     const changes = trackDependencyChanges(deps, prevDeps);
 
     if (changes.lengthChanged) {
-      warnOnce(
-        createWarningKey(hookName, "deps-length", componentName),
-        createWarning({
-          componentName,
-          hookName,
-          message: "Dependency array length changed between renders.",
-          details:
-            `Length changed from ${changes.prevLength} to ${changes.currentLength}.`,
-          fix:
-            "Ensure your dependency array has a stable length. " +
-            "Conditional dependencies should be handled inside the factory, not in the array.",
-        })
-      );
+      warnOnce(createWarningKey(hookName, "deps-length", componentName), {
+        rule: "deps-length",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Dependency array length changed between renders.",
+        details: formatDepsChanges(changes, deps, prevDeps, depsFormat),
+        fix:
+          "Ensure your dependency array has a stable length. " +
+          "Conditional dependencies should be handled inside the factory, not in the array.",
+      });
     }
 
     // Check for unstable dependencies
-    const unstableIndices = detectUnstableDeps(deps, prevDeps);
+    const unstableIndices = detectUnstableDeps(deps, prevDeps, depsFormat.deepCompare);
     if (unstableIndices.length > 0 && renderCount > 2) {
-      warnOnce(
-        createWarningKey(hookName, "unstable-deps", componentName),
-        createWarning({
-          componentName,
-          hookName,
-          message: "Potentially unstable dependencies detected.",
-          details:
-            `Dependencies at indices [${unstableIndices.join(", ")}] appear to be ` +
-            "recreated on every render despite having the same content.",
-          fix:
-            "Memoize objects, arrays, or callbacks with useMemo/useCallback, " +
-            "or move them outside the component if they don't depend on props/state.",
-        })
-      );
+      warnOnce(createWarningKey(hookName, "unstable-deps", componentName), {
+        rule: "unstable-deps",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Potentially unstable dependencies detected.",
+        details:
+          "These dependencies appear to be recreated on every render despite " +
+          `having the same content: ${formatDependencyChanges(
+            unstableIndices,
+            deps,
+            prevDeps,
+            depsFormat
+          )}.`,
+        fix:
+          "Memoize objects, arrays, or callbacks with useMemo/useCallback, " +
+          "or move them outside the component if they don't depend on props/state.",
+      });
     }
+
+    // Check for dependencies that never stay equal between renders
+    reportDependencyStability(hookContext, changes, deps, prevDeps, {
+      functionStreaks: functionStreaksRef.current,
+      stability: stabilityTrackerRef.current,
+    });
   }
 
   // Wrap factory to track recomputations
   const wrappedFactory = () => {
     recomputeCountRef.current += 1;
 
+    if (logChanges && recomputeCountRef.current > 1) {
+      logDependencyChanges({
+        componentName,
+        hookName,
+        event: "recomputed",
+        deps,
+        prevDeps,
+        depNames: depsFormat.depNames,
+      });
+    }
+
     // Check for excessive recomputations
     if (
       warnOnRecompute &&
       recomputeCountRef.current > recomputeThreshold &&
       recomputeCountRef.current === renderCount
     ) {
-      warnOnce(
-        createWarningKey(hookName, "excessive-recompute", componentName),
-        createWarning({
-          componentName,
-          hookName,
-          message: "Memoized value is recomputing on every render.",
-          details:
-            `The factory has been called ${recomputeCountRef.current} times in ` +
-            `${renderCount} renders. This defeats the purpose of memoization.`,
-          fix:
-            "Check that your dependencies are stable. Avoid inline object/array/function " +
-            "literals in the dependency array. If recomputation is intentional, " +
-            'set warnOnRecompute: false or increase recomputeThreshold.',
-        })
-      );
+      warnOnce(createWarningKey(hookName, "excessive-recompute", componentName), {
+        rule: "excessive-recompute",
+        componentName,
+        ancestry,
+        location,
+        hookName,
+        rules: scope.rules,
+        message: "Memoized value is recomputing on every render.",
+        details:
+          `The factory has been called ${recomputeCountRef.current} times in ` +
+          `${renderCount} renders. This defeats the purpose of memoization.` +
+          (prevDeps !== undefined
+            ? " " +
+              formatDepsChanges(trackDependencyChanges(deps, prevDeps), deps, prevDeps, depsFormat)
+            : ""),
+        fix:
+          "Check that your dependencies are stable. Avoid inline object/array/function " +
+          "literals in the dependency array. If recomputation is intentional, " +
+          'set warnOnRecompute: false or increase recomputeThreshold.',
+      });
     }
 
-    return factory();
+    const result = factory();
+    markMemoizedFunction(result);
+    return result;
   };
 
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -8,9 +8,12 @@
 import { useReducer, useCallback, useRef, useEffect, Reducer, Dispatch } from "react";
 import {
   __DEV__,
-  createWarning,
   warn,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
+  type SafeHooksRules,
 } from "../internal";
 
 /**
@@ -19,6 +22,8 @@ import {
 export interface SafeReducerOptions {
   /** Name to identify this reducer in warning messages */
   name?: string;
+  /** Rule levels for this hook call, overriding the global configuration */
+  rules?: SafeHooksRules;
 }
 
 /**
@@ -90,7 +95,12 @@ export function useSafeReducer<R extends Reducer<unknown, unknown>, I>(
   /* eslint-disable react-hooks/rules-of-hooks */
   const isMountedRef = useRef(true);
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeReducer";
+  const scope = useSafeHooksScope(options?.rules);
+  const rulesRef = useRef(scope.rules);
+  rulesRef.current = scope.rules;
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -102,25 +112,27 @@ export function useSafeReducer<R extends Reducer<unknown, unknown>, I>(
   const safeDispatch = useCallback(
     (action: React.ReducerAction<R>) => {
       if (!isMountedRef.current) {
-        warn(
-          createWarning({
-            componentName,
-            hookName,
-            message: "Attempted to dispatch action after component unmounted.",
-            details:
-              `Action type: ${typeof action === "object" && action !== null && "type" in action ? String((action as { type: unknown }).type) : "unknown"}. ` +
-              "This usually happens when an async operation completes after " +
-              "the component has been removed from the DOM.",
-            fix:
-              "Use useIsMounted() to check if the component is still mounted " +
-              "before dispatching, or cancel the async operation in a cleanup function.",
-          })
-        );
+        warn({
+          rule: "unmounted-dispatch",
+          componentName,
+          ancestry,
+          location,
+          hookName,
+          rules: rulesRef.current,
+          message: "Attempted to dispatch action after component unmounted.",
+          details:
+            `Action type: ${typeof action === "object" && action !== null && "type" in action ? String((action as { type: unknown }).type) : "unknown"}. ` +
+            "This usually happens when an async operation completes after " +
+            "the component has been removed from the DOM.",
+          fix:
+            "Use useIsMounted() to check if the component is still mounted " +
+            "before dispatching, or cancel the async operation in a cleanup function.",
+        });
         return;
       }
       dispatch(action);
     },
-    [componentName, hookName]
+    [componentName, ancestry, hookName, location]
   );
   /* eslint-enable react-hooks/rules-of-hooks */
 
@@ -8,11 +8,14 @@
 import { useRef, MutableRefObject } from "react";
 import {
   __DEV__,
-  createWarning,
   warnOnce,
   createWarningKey,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
   useRenderCount,
+  type SafeHooksRules,
 } from "../internal";
 
 /**
@@ -23,6 +26,8 @@ export interface SafeRefOptions {
   name?: string;
   /** Whether to warn on null/undefined initial value - default false */
   warnOnNullInit?: boolean;
+  /** Rule levels for this hook call, overriding the global configuration */
+  rules?: SafeHooksRules;
 }
 
 /**
@@ -77,25 +82,29 @@ export function useSafeRef<T>(
 
   /* eslint-disable react-hooks/rules-of-hooks */
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeRef";
+  const scope = useSafeHooksScope(options?.rules);
   const renderCount = useRenderCount();
   const warnOnNullInit = options?.warnOnNullInit ?? false;
 
   // Optionally warn on null/undefined initial value
   if (warnOnNullInit && renderCount === 1 && initialValue == null) {
-    warnOnce(
-      createWarningKey(hookName, "null-init", componentName),
-      createWarning({
-        componentName,
-        hookName,
-        message: "Ref initialized with null or undefined.",
-        details:
-          "This is usually fine for DOM refs, but may indicate a bug for other uses.",
-        fix:
-          "If intentional, disable this warning with warnOnNullInit: false. " +
-          "Otherwise, provide an initial value.",
-      })
-    );
+    warnOnce(createWarningKey(hookName, "null-init", componentName), {
+      rule: "null-init",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules: scope.rules,
+      message: "Ref initialized with null or undefined.",
+      details:
+        "This is usually fine for DOM refs, but may indicate a bug for other uses.",
+      fix:
+        "If intentional, disable this warning with warnOnNullInit: false. " +
+        "Otherwise, provide an initial value.",
+    });
   }
   /* eslint-enable react-hooks/rules-of-hooks */
 
@@ -10,9 +10,11 @@ import type { Dispatch, SetStateAction } from "react";
 import type { SafeStateOptions } from "../types";
 import {
   __DEV__,
-  createWarning,
   warn,
   useComponentName,
+  useHookCallSite,
+  useComponentAncestry,
+  useSafeHooksScope,
 } from "../internal";
 
 /**
@@ -69,7 +71,12 @@ export function useSafeState<S>(
   /* eslint-disable react-hooks/rules-of-hooks */
   const isMountedRef = useRef(true);
   const componentName = useComponentName();
+  const ancestry = useComponentAncestry();
+  const location = useHookCallSite();
   const hookName = options?.name ?? "useSafeState";
+  const scope = useSafeHooksScope(options?.rules);
+  const rulesRef = useRef(scope.rules);
+  rulesRef.current = scope.rules;
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -81,25 +88,27 @@ export function useSafeState<S>(
   const safeSetState = useCallback(
     (value: SetStateAction<S | undefined>) => {
       if (!isMountedRef.current) {
-        warn(
-          createWarning({
-            componentName,
-            hookName,
-            message:
-              "Attempted to update state after component unmounted.",
-            details:
-              "This usually happens when an async operation completes after " +
-              "the component has already been removed from the DOM.",
-            fix:
-              "Use useIsMounted() to check if the component is still mounted " +
-              "before calling setState, or cancel the async operation in a cleanup function.",
-          })
-        );
+        warn({
+          rule: "unmounted-update",
+          componentName,
+          ancestry,
+          location,
+          hookName,
+          rules: rulesRef.current,
+          message:
+            "Attempted to update state after component unmounted.",
+          details:
+            "This usually happens when an async operation completes after " +
+            "the component has already been removed from the DOM.",
+          fix:
+            "Use useIsMounted() to check if the component is still mounted " +
+            "before calling setState, or cancel the async operation in a cleanup function.",
+        });
         return;
       }
       setState(value);
     },
-    [componentName, hookName]
+    [componentName, ancestry, hookName, location]
   );
   /* eslint-enable react-hooks/rules-of-hooks */
 
@@ -12,25 +12,79 @@
 export { useIsMounted } from "./hooks/useIsMounted";
 export { useSafeState } from "./hooks/useSafeState";
 export { useSafeEffect } from "./hooks/useSafeEffect";
+export { useSafeAsyncEffect } from "./hooks/useSafeAsyncEffect";
+export { useSafeAsync } from "./hooks/useSafeAsync";
 export { useSafeCallback } from "./hooks/useSafeCallback";
 export { useSafeMemo } from "./hooks/useSafeMemo";
+export { useSafeEventCallback } from "./hooks/useSafeEventCallback";
 export { useSafeRef } from "./hooks/useSafeRef";
 export { useSafeLayoutEffect } from "./hooks/useSafeLayoutEffect";
 export { useSafeReducer } from "./hooks/useSafeReducer";
 export { useSafeContext } from "./hooks/useSafeContext";
 
+// Export components
+export { SafeHooksProvider } from "./components/SafeHooksProvider";
+export { SafeHooksOverlay } from "./components/SafeHooksOverlay";
+
 // Export types
 export type {
   SafeEffectOptions,
+  SafeAsyncEffectOptions,
+  AsyncEffectCallback,
   SafeCallbackOptions,
   SafeMemoOptions,
   SafeStateOptions,
 } from "./types";
 
 export type { SafeRefOptions } from "./hooks/useSafeRef";
+export type { SafeEventCallbackOptions } from "./hooks/useSafeEventCallback";
 export type { SafeLayoutEffectOptions } from "./hooks/useSafeLayoutEffect";
+export type {
+  SafeAsyncOptions,
+  SafeAsyncResult,
+  SafeAsyncStatus,
+} from "./hooks/useSafeAsync";
 export type { SafeReducerOptions } from "./hooks/useSafeReducer";
 export type { SafeContextOptions } from "./hooks/useSafeContext";
+export type { SafeHooksProviderProps } from "./components/SafeHooksProvider";
+export type { SafeHooksOverlayProps } from "./components/SafeHooksOverlay";
+
+// Export configuration and reporting
+export { configureSafeHooks, resetSafeHooksConfig } from "./internal/config";
+export { consoleReporter, addSafeHooksReporter } from "./internal/reporter";
+export type { SafeHooksConfig } from "./internal/config";
+export type { SafeHooksScopeConfig } from "./internal/scope";
+export type { SafeHooksThresholds } from "./internal/thresholds";
+export type { SafeHooksReporter } from "./internal/reporter";
+export { WARNING_RULES } from "./internal/rules";
+export { SafeHooksError } from "./internal/warn";
+export {
+  getSafeHookWarnings,
+  subscribeToSafeHookWarnings,
+} from "./internal/history";
+export { clearWarnings as resetSafeHookWarnings } from "./internal/warn";
+export type {
+  SafeHookWarningEntry,
+  SafeHookWarningListener,
+} from "./internal/history";
+export { flushSafeHookWarnings } from "./internal/aggregate";
+export { createSafeHookReport } from "./internal/report";
+export type { SafeHookReportFormat, SarifOptions } from "./internal/report";
+export type { AggregateOptions } from "./internal/aggregate";
+export type { ComponentAncestry, SourceLocation } from "./internal/componentName";
+export type { DeepCompareOptions } from "./internal/deepDiff";
+export type {
+  WarningConfig,
+  SafeHookWarning,
+  WarningOccurrences,
+} from "./internal/warn";
+export type {
+  RuleLevel,
+  SafeHooksRules,
+  WarningRule,
+  WarningSeverity,
+  WarningRuleDefinition,
+} from "./internal/rules";
 
 // Export dev utilities for advanced usage
 export { __DEV__ } from "./internal/devOnly";
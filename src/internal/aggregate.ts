@@ -0,0 +1,127 @@
+/**
+ * Aggregation of repeating warnings.
+ *
+ * When enabled, occurrences of the same warning within a time window are
+ * collapsed into a single report carrying an occurrence count and the
+ * first/last-seen timestamps. Pending reports are flushed on a timer.
+ */
+
+import { report } from "./reporter";
+import type { SafeHookWarning } from "./warn";
+
+/**
+ * Options for warning aggregation.
+ */
+export interface AggregateOptions {
+  /**
+   * Length of the aggregation window in milliseconds.
+   * @default 1000
+   */
+  windowMs?: number;
+}
+
+/** Default aggregation window */
+export const DEFAULT_AGGREGATE_WINDOW_MS = 1000;
+
+/**
+ * Occurrences folded into one pending report.
+ */
+interface PendingWarning {
+  warning: SafeHookWarning;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+/** Whether aggregation is enabled */
+let enabled = false;
+
+/** Current aggregation window */
+let windowMs = DEFAULT_AGGREGATE_WINDOW_MS;
+
+/** Pending reports by warning key */
+const pending = new Map<string, PendingWarning>();
+
+/** Timer that flushes the pending reports */
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Enables or disables aggregation.
+ * Disabling it flushes any pending reports.
+ *
+ * @param options - false to disable, true or an options object to enable
+ */
+export function setAggregation(options: boolean | AggregateOptions): void {
+  enabled = options !== false;
+  windowMs =
+    typeof options === "object"
+      ? options.windowMs ?? DEFAULT_AGGREGATE_WINDOW_MS
+      : DEFAULT_AGGREGATE_WINDOW_MS;
+
+  if (!enabled) {
+    flushSafeHookWarnings();
+  }
+}
+
+/**
+ * Returns whether aggregation is enabled.
+ *
+ * @returns True if repeating warnings are aggregated
+ */
+export function isAggregationEnabled(): boolean {
+  return enabled;
+}
+
+/**
+ * Adds an occurrence of a warning to its pending report and schedules a flush.
+ *
+ * @param key - Deduplication key of the warning
+ * @param warning - The warning that occurred
+ */
+export function aggregateWarning(key: string, warning: SafeHookWarning): void {
+  const now = Date.now();
+  const existing = pending.get(key);
+
+  if (existing) {
+    existing.warning = warning;
+    existing.count += 1;
+    existing.lastSeen = now;
+  } else {
+    pending.set(key, { warning, count: 1, firstSeen: now, lastSeen: now });
+  }
+
+  if (flushTimer === undefined) {
+    flushTimer = setTimeout(flushSafeHookWarnings, windowMs);
+    // Don't keep Node processes (test runners, SSR) alive for a pending flush
+    (flushTimer as { unref?: () => void }).unref?.();
+  }
+}
+
+/**
+ * Reports every pending aggregated warning immediately.
+ * Useful before asserting on reporter output in tests.
+ */
+export function flushSafeHookWarnings(): void {
+  if (flushTimer !== undefined) {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+  }
+
+  const flushed = Array.from(pending.values());
+  pending.clear();
+
+  for (const { warning, count, firstSeen, lastSeen } of flushed) {
+    report({ ...warning, occurrences: { count, firstSeen, lastSeen } });
+  }
+}
+
+/**
+ * Discards every pending aggregated warning without reporting it.
+ */
+export function discardAggregatedWarnings(): void {
+  if (flushTimer !== undefined) {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+  }
+  pending.clear();
+}
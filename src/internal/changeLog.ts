@@ -0,0 +1,76 @@
+/**
+ * "Why did this run" logging.
+ *
+ * When a hook is called with `logChanges: true`, every re-run of its effect,
+ * factory or callback is logged to the console together with the
+ * dependencies that triggered it.
+ */
+
+import type { DependencyList } from "react";
+import { describeDependency, trackDependencyChanges } from "./depsTracker";
+
+/**
+ * A re-run to log.
+ */
+export interface DependencyChangeLog {
+  /** Name of the component that rendered the hook */
+  componentName: string;
+  /** Name of the hook */
+  hookName: string;
+  /** What happened, e.g. "re-ran" or "recomputed" */
+  event: string;
+  /** Dependencies of this run (undefined when the hook has no dependency array) */
+  deps: DependencyList | undefined;
+  /** Dependencies of the previous run */
+  prevDeps: DependencyList | undefined;
+  /** Labels for the dependency array */
+  depNames?: readonly string[];
+}
+
+/**
+ * Logs a re-run in a collapsed console group, listing each dependency that
+ * changed with its old and new value. Runs without a changed dependency
+ * (such as the repeated mount in Strict Mode) are not logged.
+ *
+ * @param log - The re-run to log
+ *
+ * @example
+ * ```
+ * ▸ react-safe-hooks: useSafeEffect in UserProfile re-ran (1 dependency changed)
+ *     `userId`: 1 → 2
+ * ```
+ */
+export function logDependencyChanges(log: DependencyChangeLog): void {
+  const { componentName, hookName, event, deps, prevDeps, depNames } = log;
+  const title = `react-safe-hooks: ${hookName} in ${componentName} ${event}`;
+
+  if (deps === undefined) {
+    console.groupCollapsed(`${title} (no dependency array)`);
+    console.log("Hooks without a dependency array run after every render.");
+    console.groupEnd();
+    return;
+  }
+
+  if (prevDeps === undefined) {
+    return;
+  }
+
+  const changes = trackDependencyChanges(deps, prevDeps);
+  if (!changes.hasChanges) {
+    return;
+  }
+
+  const count = changes.changedIndices.length;
+  console.groupCollapsed(
+    `${title} (${count} ${count === 1 ? "dependency" : "dependencies"} changed)`
+  );
+  if (changes.lengthChanged) {
+    console.log(
+      `Dependency array length changed from ${changes.prevLength} to ${changes.currentLength}.`
+    );
+  }
+  for (const index of changes.changedIndices) {
+    console.log(`${describeDependency(index, depNames)}:`, prevDeps[index], "→", deps[index]);
+  }
+  console.groupEnd();
+}
@@ -6,6 +6,8 @@
  */
 
 import { __DEV__ } from "./devOnly";
+import { DEFAULT_THRESHOLDS } from "./thresholds";
+import { describeDependency, formatDependencyValue } from "./depsTracker";
 
 /**
  * Result of checking for stale closure issues.
@@ -34,23 +36,19 @@ export interface CallbackStabilityResult {
   isExcessive: boolean;
 }
 
-/**
- * Threshold for what's considered "excessive" callback changes.
- * If a callback changes more than this many times, it's likely unstable.
- */
-const EXCESSIVE_CHANGE_THRESHOLD = 5;
-
 /**
  * Checks if a callback is changing too frequently, which might indicate
  * that dependencies are missing or the callback is being recreated unnecessarily.
  *
  * @param changeCount - Number of times the callback has changed
  * @param renderCount - Total number of renders
+ * @param threshold - Changes above which the callback is considered unstable
  * @returns Whether the callback is changing excessively
  */
 export function isExcessiveCallbackChange(
   changeCount: number,
-  renderCount: number
+  renderCount: number,
+  threshold: number = DEFAULT_THRESHOLDS.callbackChanges
 ): boolean {
   if (!__DEV__) return false;
 
@@ -60,7 +58,7 @@ export function isExcessiveCallbackChange(
   }
 
   // If callback has changed more than the threshold, warn
-  if (changeCount > EXCESSIVE_CHANGE_THRESHOLD) {
+  if (changeCount > threshold) {
     return true;
   }
 
@@ -77,12 +75,14 @@ export function isExcessiveCallbackChange(
  * @param declaredDeps - Dependencies declared in the dependency array
  * @param prevDeps - Dependencies from the previous render
  * @param callbackChanged - Whether the callback reference changed
+ * @param depNames - Optional labels for the dependency array
  * @returns Information about potential stale closures
  */
 export function detectStaleClosure(
   declaredDeps: React.DependencyList,
   prevDeps: React.DependencyList | undefined,
-  callbackChanged: boolean
+  callbackChanged: boolean,
+  depNames?: readonly string[]
 ): StaleClosureResult {
   if (!__DEV__) {
     return { isStale: false };
@@ -95,8 +95,9 @@ export function detectStaleClosure(
         return {
           isStale: true,
           description:
-            `Dependency at index ${i} changed but callback was not updated. ` +
-            `This may cause the callback to use stale values.`,
+            `Dependency ${describeDependency(i, depNames)} changed ` +
+            `(${formatDependencyValue(prevDeps[i])} → ${formatDependencyValue(declaredDeps[i])}) ` +
+            "but callback was not updated. This may cause the callback to use stale values.",
         };
       }
     }
@@ -105,6 +106,45 @@ export function detectStaleClosure(
   return { isStale: false };
 }
 
+/**
+ * The render a memoized callback was created in, and the dependency
+ * values it captured.
+ */
+export interface CallbackGeneration {
+  /** Render count of the render that created the callback */
+  generation: number;
+  /** Dependencies of that render */
+  deps: React.DependencyList;
+}
+
+/**
+ * Finds the captured values of a callback that are outdated at call time.
+ * A callback is only stale when a newer render has been committed and the
+ * dependencies it captured have changed since.
+ *
+ * @param captured - Generation and dependencies the callback was created with
+ * @param latest - Generation and dependencies of the latest committed render
+ * @returns Indices of dependencies whose captured value is outdated
+ */
+export function findStaleCapturedDeps(
+  captured: CallbackGeneration,
+  latest: CallbackGeneration | null
+): number[] {
+  if (!__DEV__ || !latest || latest.generation <= captured.generation) {
+    return [];
+  }
+
+  const staleIndices: number[] = [];
+  const length = Math.min(captured.deps.length, latest.deps.length);
+  for (let i = 0; i < length; i++) {
+    if (!Object.is(captured.deps[i], latest.deps[i])) {
+      staleIndices.push(i);
+    }
+  }
+
+  return staleIndices;
+}
+
 /**
  * Tracks state about a callback for detecting issues over time.
  */
@@ -7,40 +7,165 @@
 
 import { useRef, useEffect } from "react";
 import { __DEV__ } from "./devOnly";
+import {
+  getCurrentOwnerFiber,
+  getFiberAncestry,
+  getFiberComponentName,
+  getFiberKey,
+} from "./fiber";
 
 /**
- * Attempts to extract the component name from the React Fiber.
- * This is a best-effort approach that works in most cases but may
- * not always return accurate results.
+ * A location in source code.
+ */
+export interface SourceLocation {
+  /** File path or URL */
+  file: string;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+}
+
+/**
+ * Where a component instance sits in the tree.
+ */
+export interface ComponentAncestry {
+  /** Component names from the root down, ending with the component itself */
+  path: string[];
+  /** React key of the component instance, if it has one */
+  key?: string;
+}
+
+/**
+ * A single parsed stack frame.
+ */
+export interface StackFrame {
+  /** Function name, without receiver prefixes like `Object.` */
+  functionName?: string;
+  /** Location of the frame, when the engine reports one */
+  location?: SourceLocation;
+}
+
+/**
+ * Parses the location part of a stack frame (`file:line:column`).
+ *
+ * @param text - The location text
+ * @returns The parsed location, or undefined if it has no line and column
+ */
+function parseLocation(text: string): SourceLocation | undefined {
+  const match = text.match(/^(.*):(\d+):(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+  return { file: match[1], line: Number(match[2]), column: Number(match[3]) };
+}
+
+/**
+ * Parses an Error stack into frames.
+ * Supports V8 (`at fn (file:1:2)`) and Firefox/Safari (`fn@file:1:2`)
+ * formats. Lines that are not frames, such as the message header, are skipped.
+ *
+ * @param stack - The `Error.prototype.stack` string
+ * @returns The frames, innermost first
+ */
+export function parseStackFrames(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stack.split("\n")) {
+    let name: string | undefined;
+    let locationText: string | undefined;
+
+    const v8 = line.match(/^\s*at\s+(?:(.*?)\s+\((.*)\)|(.*))$/);
+    const gecko = v8 ? null : line.match(/^(.*?)@(.*)$/);
+
+    if (v8) {
+      name = v8[1];
+      locationText = v8[1] !== undefined ? v8[2] : v8[3];
+    } else if (gecko) {
+      name = gecko[1];
+      locationText = gecko[2];
+    } else {
+      continue;
+    }
+
+    // "Object.useSafeEffect", "new Foo", "async bar" -> the bare function name
+    const functionName = name
+      ?.replace(/^(?:new|async)\s+/, "")
+      .split(".")
+      .pop()
+      ?.replace(/\s.*$/, "");
+
+    frames.push({
+      functionName: functionName || undefined,
+      location: locationText ? parseLocation(locationText.trim()) : undefined,
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Returns the name of the component that is currently rendering.
+ * Reads the rendering fiber when React exposes it, which respects
+ * `displayName` and unwraps memo, forwardRef and lazy components, and
+ * falls back to scanning the stack trace otherwise.
+ *
+ * The name is detected on the first render and cached for the lifetime of
+ * the component instance.
  *
  * @returns The component name, or "Unknown" if detection fails
  */
 export function useComponentName(): string {
+  const ref = useRef<string | null>(null);
+
   if (!__DEV__) {
     return "Unknown";
   }
 
-  // Best-effort component name detection using Error stack trace
-  // This works in development but should be used carefully
+  if (ref.current === null) {
+    ref.current = detectComponentName();
+  }
+
+  return ref.current;
+}
+
+/**
+ * Detects the name of the rendering component.
+ *
+ * @returns The component name, or "Unknown" if detection fails
+ */
+function detectComponentName(): string {
+  const fiber = getCurrentOwnerFiber();
+  const fiberName = fiber ? getFiberComponentName(fiber) : undefined;
+
+  return fiberName ?? detectComponentNameFromStack();
+}
+
+/**
+ * Best-effort component name detection using the Error stack trace.
+ * Used when the rendering fiber is not available.
+ *
+ * @returns The component name, or "Unknown" if detection fails
+ */
+function detectComponentNameFromStack(): string {
   try {
     const stack = new Error().stack;
     if (stack) {
-      const lines = stack.split("\n");
+      const frames = parseStackFrames(stack);
       // Look for component function names in the stack
-      // Skip the first few entries (Error, useComponentName, hook caller)
-      for (let i = 3; i < Math.min(lines.length, 10); i++) {
-        const line = lines[i];
+      // Skip the first few entries (the detection helpers, useComponentName,
+      // hook caller)
+      for (let i = 4; i < Math.min(frames.length, 11); i++) {
+        const name = frames[i].functionName;
         // Match function names that look like React components (PascalCase)
-        const match = line.match(/at\s+([A-Z][a-zA-Z0-9_]*)\s*\(/);
-        if (match && match[1]) {
-          // Filter out known React internals and hook names
-          const name = match[1];
-          if (
-            !name.startsWith("use") &&
-            !["Object", "Module", "Array", "Function"].includes(name)
-          ) {
-            return name;
-          }
+        // and filter out known React internals and hook names
+        if (
+          name &&
+          /^[A-Z][a-zA-Z0-9_]*$/.test(name) &&
+          !name.startsWith("use") &&
+          !["Object", "Module", "Array", "Function"].includes(name)
+        ) {
+          return name;
         }
       }
     }
@@ -51,6 +176,124 @@ export function useComponentName(): string {
   return "Unknown";
 }
 
+/**
+ * Returns the ancestry of the component that is currently rendering:
+ * the names of its parent components and its React key.
+ * Detected on the first render and cached for the lifetime of the
+ * component instance.
+ *
+ * @returns The ancestry, or undefined when React does not expose the
+ *   rendering component
+ *
+ * @example
+ * ```ts
+ * const ancestry = useComponentAncestry();
+ * // { path: ["App", "Dashboard", "OrdersTable", "ListItem"], key: "order-42" }
+ * ```
+ */
+export function useComponentAncestry(): ComponentAncestry | undefined {
+  const ref = useRef<{ ancestry: ComponentAncestry | undefined } | null>(null);
+
+  if (!__DEV__) {
+    return undefined;
+  }
+
+  if (ref.current === null) {
+    ref.current = { ancestry: detectComponentAncestry() };
+  }
+
+  return ref.current.ancestry;
+}
+
+/**
+ * Detects the ancestry of the rendering component.
+ *
+ * @returns The ancestry, or undefined if the rendering fiber is unavailable
+ */
+function detectComponentAncestry(): ComponentAncestry | undefined {
+  try {
+    const fiber = getCurrentOwnerFiber();
+    if (!fiber) {
+      return undefined;
+    }
+
+    return {
+      path: getFiberAncestry(fiber),
+      key: getFiberKey(fiber),
+    };
+  } catch {
+    // Silently fail - this is best-effort only
+    return undefined;
+  }
+}
+
+/**
+ * Function names of this library's hooks. Frames with these names are
+ * skipped when looking for the code that called a safe hook.
+ */
+const LIBRARY_FRAME = /^(?:useSafe[A-Z]\w*|useIsMounted|useHookCallSite)$/;
+
+/**
+ * Finds the location of the code that called a safe hook, by skipping
+ * this library's own frames on the stack.
+ *
+ * @returns The call-site location, or undefined if detection fails
+ */
+function detectHookCallSite(): SourceLocation | undefined {
+  const prevLimit = Error.stackTraceLimit;
+  try {
+    // Nested safe hooks and React internals can push the caller out of the
+    // default 10-frame window
+    Error.stackTraceLimit = 30;
+    const stack = new Error().stack;
+    if (!stack) {
+      return undefined;
+    }
+
+    const frames = parseStackFrames(stack);
+    let lastLibraryFrame = -1;
+    for (let i = 0; i < frames.length; i++) {
+      const name = frames[i].functionName;
+      if (name && LIBRARY_FRAME.test(name)) {
+        lastLibraryFrame = i;
+      }
+    }
+
+    return frames[lastLibraryFrame + 1]?.location;
+  } catch {
+    // Silently fail - this is best-effort only
+    return undefined;
+  } finally {
+    Error.stackTraceLimit = prevLimit;
+  }
+}
+
+/**
+ * Records where a safe hook was called from (file, line and column).
+ * The location is captured on the first render and reused afterwards.
+ *
+ * @returns The call-site location, or undefined if detection fails
+ *
+ * @example
+ * ```ts
+ * const location = useHookCallSite();
+ * // { file: "src/UserProfile.tsx", line: 12, column: 3 }
+ * ```
+ */
+export function useHookCallSite(): SourceLocation | undefined {
+  const ref = useRef<{ location: SourceLocation | undefined } | null>(null);
+
+  if (!__DEV__) {
+    return undefined;
+  }
+
+  if (ref.current === null) {
+    ref.current = { location: detectHookCallSite() };
+  }
+
+  return ref.current.location;
+}
+
 /**
  * Hook to track the previous value of any variable.
  * Useful for comparing values between renders.
@@ -0,0 +1,109 @@
+/**
+ * Global configuration for react-safe-hooks.
+ *
+ * Configuration is process-wide and is meant to be set once during
+ * application or test setup, before any safe hook renders.
+ */
+
+import { __DEV__ } from "./devOnly";
+import { consoleReporter, setReporters, type SafeHooksReporter } from "./reporter";
+import { setGlobalRules, type SafeHooksRules } from "./rules";
+import { DEFAULT_HISTORY_LIMIT, setHistoryLimit } from "./history";
+import { setAggregation, type AggregateOptions } from "./aggregate";
+import { setGlobalThresholds, type SafeHooksThresholds } from "./thresholds";
+
+/**
+ * Options accepted by configureSafeHooks.
+ */
+export interface SafeHooksConfig {
+  /**
+   * One or more sinks that receive every warning.
+   * Replaces the currently registered reporters. Pass an empty array to
+   * silence all output.
+   * @default consoleReporter
+   */
+  reporter?: SafeHooksReporter | readonly SafeHooksReporter[];
+
+  /**
+   * Level of each rule: "off", "warn", "error" or "throw".
+   * Replaces the current rule table; rules that are not listed use their
+   * default level. Per-call `rules` options take precedence.
+   */
+  rules?: SafeHooksRules;
+
+  /**
+   * Thresholds used by the heuristics, e.g. how many recomputations
+   * useSafeMemo tolerates. Omitted keys use their default.
+   */
+  thresholds?: SafeHooksThresholds;
+
+  /**
+   * Maximum number of distinct warnings kept in the history returned by
+   * getSafeHookWarnings. The least recently seen entries are dropped first.
+   * @default 200
+   */
+  historyLimit?: number;
+
+  /**
+   * Collapse repeated warnings into one report per time window, carrying an
+   * occurrence count and first/last-seen timestamps. Applies both to warnings
+   * that are normally reported on every occurrence and to those normally
+   * reported only once. Pass `true` for a 1000 ms window.
+   * @default false
+   */
+  aggregate?: boolean | AggregateOptions;
+}
+
+/**
+ * Configures react-safe-hooks globally.
+ *
+ * Only the provided keys are changed; omitted keys keep their current value.
+ * In production this is a no-op.
+ *
+ * @param config - Configuration to apply
+ *
+ * @example
+ * ```ts
+ * configureSafeHooks({
+ *   reporter: [consoleReporter, (warning) => myLogger.warn(warning)],
+ *   rules: { "stale-closure": "throw", "null-init": "off" },
+ * });
+ * ```
+ */
+export function configureSafeHooks(config: SafeHooksConfig): void {
+  if (!__DEV__) return;
+
+  if (config.reporter !== undefined) {
+    setReporters(
+      typeof config.reporter === "function" ? [config.reporter] : config.reporter
+    );
+  }
+
+  if (config.rules !== undefined) {
+    setGlobalRules(config.rules);
+  }
+
+  if (config.thresholds !== undefined) {
+    setGlobalThresholds(config.thresholds);
+  }
+
+  if (config.historyLimit !== undefined) {
+    setHistoryLimit(config.historyLimit);
+  }
+
+  if (config.aggregate !== undefined) {
+    setAggregation(config.aggregate);
+  }
+}
+
+/**
+ * Restores the default configuration.
+ * Useful for testing or resetting state.
+ */
+export function resetSafeHooksConfig(): void {
+  setReporters([consoleReporter]);
+  setGlobalRules({});
+  setGlobalThresholds({});
+  setHistoryLimit(DEFAULT_HISTORY_LIMIT);
+  setAggregation(false);
+}
@@ -0,0 +1,295 @@
+/**
+ * Structural comparison of dependency values.
+ *
+ * Used by the opt-in deep dependency check to tell apart values that really
+ * changed from values that were rebuilt with the same content, and to point
+ * at the part of the value that differs or was recreated.
+ */
+
+/**
+ * Options for the deep dependency comparison.
+ */
+export interface DeepCompareOptions {
+  /**
+   * Maximum number of nested values visited per dependency. Larger values
+   * are reported as not comparable rather than walked completely.
+   * @default 500
+   */
+  maxNodes?: number;
+}
+
+/** Default node budget of a deep comparison */
+export const DEFAULT_DEEP_COMPARE_MAX_NODES = 500;
+
+/**
+ * Normalizes the `deepCompareDeps` hook option.
+ *
+ * @param option - true, false/undefined or an options object
+ * @returns The comparison options, or undefined when deep comparison is off
+ */
+export function toDeepCompareOptions(
+  option: boolean | DeepCompareOptions | undefined
+): DeepCompareOptions | undefined {
+  if (option === true) {
+    return {};
+  }
+  return option || undefined;
+}
+
+/**
+ * Result of comparing two values structurally.
+ */
+export type DeepDiffResult =
+  /** Same reference (or equal primitive) */
+  | { kind: "same" }
+  /** Equal content, but recreated; paths of the innermost new references */
+  | { kind: "identical"; newReferences: string[] }
+  /** Different content; path of the first difference */
+  | { kind: "different"; path: string; prev: unknown; current: unknown }
+  /** The values were too large to compare within the node budget */
+  | { kind: "budget-exceeded" };
+
+/**
+ * Thrown internally to abort a comparison that ran out of budget.
+ */
+class BudgetExceeded {}
+
+/**
+ * State of one comparison.
+ */
+interface DiffContext {
+  /** Nodes that may still be visited */
+  remaining: number;
+  /** Pairs already being compared, for cycle protection */
+  visited: WeakMap<object, WeakSet<object>>;
+  /** Innermost paths holding a new reference with equal content */
+  newReferences: string[];
+}
+
+/**
+ * Appends an object key to a path, using dot notation when possible.
+ *
+ * @param path - The parent path
+ * @param key - The property key
+ * @returns The child path
+ */
+function appendKey(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Marks a pair of objects as being compared.
+ *
+ * @param context - The comparison state
+ * @param prev - The previous object
+ * @param current - The current object
+ * @returns True if the pair was already being compared (a cycle)
+ */
+function enterPair(context: DiffContext, prev: object, current: object): boolean {
+  let partners = context.visited.get(prev);
+  if (!partners) {
+    partners = new WeakSet();
+    context.visited.set(prev, partners);
+  }
+  if (partners.has(current)) {
+    return true;
+  }
+  partners.add(current);
+  return false;
+}
+
+/**
+ * Compares two values, recording new references in the context.
+ *
+ * @param prev - The previous value
+ * @param current - The current value
+ * @param path - Path of the values
+ * @param context - The comparison state
+ * @returns The path and values of the first difference, or null if the
+ *   values have equal content
+ */
+function compare(
+  prev: unknown,
+  current: unknown,
+  path: string,
+  context: DiffContext
+): { path: string; prev: unknown; current: unknown } | null {
+  if (Object.is(prev, current)) {
+    return null;
+  }
+
+  if (--context.remaining < 0) {
+    throw new BudgetExceeded();
+  }
+
+  const difference = { path, prev, current };
+
+  if (typeof prev === "function" && typeof current === "function") {
+    // Inline functions are recreated with the same source on every render
+    if (prev.length !== current.length || String(prev) !== String(current)) {
+      return difference;
+    }
+    context.newReferences.push(path);
+    return null;
+  }
+
+  if (
+    typeof prev !== "object" ||
+    prev === null ||
+    typeof current !== "object" ||
+    current === null ||
+    Object.getPrototypeOf(prev) !== Object.getPrototypeOf(current)
+  ) {
+    return difference;
+  }
+
+  if (enterPair(context, prev, current)) {
+    return null;
+  }
+
+  const referencesBefore = context.newReferences.length;
+  const childDifference = compareChildren(prev, current, path, context);
+  if (childDifference) {
+    return childDifference;
+  }
+
+  // Only report this level when no nested value was recreated on its own
+  if (context.newReferences.length === referencesBefore) {
+    context.newReferences.push(path);
+  }
+  return null;
+}
+
+/**
+ * Compares the contents of two objects of the same kind.
+ *
+ * @param prev - The previous object
+ * @param current - The current object
+ * @param path - Path of the objects
+ * @param context - The comparison state
+ * @returns The first difference, or null if the contents are equal
+ */
+function compareChildren(
+  prev: object,
+  current: object,
+  path: string,
+  context: DiffContext
+): { path: string; prev: unknown; current: unknown } | null {
+  const difference = { path, prev, current };
+
+  if (prev instanceof Date) {
+    return prev.getTime() === (current as Date).getTime() ? null : difference;
+  }
+
+  if (prev instanceof RegExp) {
+    return String(prev) === String(current) ? null : difference;
+  }
+
+  if (prev instanceof Map) {
+    const currentMap = current as Map<unknown, unknown>;
+    if (prev.size !== currentMap.size) {
+      return difference;
+    }
+    for (const [key, value] of prev) {
+      if (!currentMap.has(key)) {
+        return difference;
+      }
+      const keyText = typeof key === "string" ? JSON.stringify(key) : String(key);
+      const result = compare(value, currentMap.get(key), `${path}.get(${keyText})`, context);
+      if (result) return result;
+    }
+    return null;
+  }
+
+  if (prev instanceof Set) {
+    const currentValues = Array.from(current as Set<unknown>);
+    if (prev.size !== currentValues.length) {
+      return difference;
+    }
+    let index = 0;
+    for (const value of prev) {
+      const result = compare(value, currentValues[index], `${path}[entry ${index}]`, context);
+      if (result) return result;
+      index++;
+    }
+    return null;
+  }
+
+  if (Array.isArray(prev)) {
+    const currentArray = current as unknown[];
+    if (prev.length !== currentArray.length) {
+      return { path: `${path}.length`, prev: prev.length, current: currentArray.length };
+    }
+    for (let i = 0; i < prev.length; i++) {
+      const result = compare(prev[i], currentArray[i], `${path}[${i}]`, context);
+      if (result) return result;
+    }
+    return null;
+  }
+
+  const prevKeys = Object.keys(prev);
+  const currentRecord = current as Record<string, unknown>;
+  const currentKeys = Object.keys(current);
+
+  for (const key of currentKeys) {
+    if (!Object.prototype.hasOwnProperty.call(prev, key)) {
+      return { path: appendKey(path, key), prev: undefined, current: currentRecord[key] };
+    }
+  }
+  for (const key of prevKeys) {
+    const result = compare(
+      (prev as Record<string, unknown>)[key],
+      currentRecord[key],
+      appendKey(path, key),
+      context
+    );
+    if (result) return result;
+  }
+  return null;
+}
+
+/**
+ * Compares two values structurally.
+ * Handles nested objects and arrays, Maps, Sets, Dates, RegExps and
+ * functions (compared by source). Cycles are followed once.
+ *
+ * @param prev - The previous value
+ * @param current - The current value
+ * @param path - How to name the root value in paths, e.g. `deps[2]`
+ * @param options - Comparison options
+ * @returns Whether and where the values differ
+ *
+ * @example
+ * ```ts
+ * deepDiff({ sort: { by: "name" } }, { sort: { by: "name" } }, "deps[0]");
+ * // { kind: "identical", newReferences: ["deps[0].sort"] }
+ * ```
+ */
+export function deepDiff(
+  prev: unknown,
+  current: unknown,
+  path: string,
+  options: DeepCompareOptions = {}
+): DeepDiffResult {
+  if (Object.is(prev, current)) {
+    return { kind: "same" };
+  }
+
+  const context: DiffContext = {
+    remaining: options.maxNodes ?? DEFAULT_DEEP_COMPARE_MAX_NODES,
+    visited: new WeakMap(),
+    newReferences: [],
+  };
+
+  try {
+    const difference = compare(prev, current, path, context);
+    return difference
+      ? { kind: "different", ...difference }
+      : { kind: "identical", newReferences: context.newReferences };
+  } catch (error) {
+    if (error instanceof BudgetExceeded) {
+      return { kind: "budget-exceeded" };
+    }
+    throw error;
+  }
+}
@@ -6,6 +6,38 @@
  */
 
 import { __DEV__ } from "./devOnly";
+import { deepDiff, type DeepCompareOptions } from "./deepDiff";
+
+/**
+ * Kind of a dependency value. Finer than `typeof`: null, NaN, arrays,
+ * Dates and Promises get kinds of their own.
+ */
+export type DependencyKind =
+  | "undefined"
+  | "null"
+  | "boolean"
+  | "number"
+  | "nan"
+  | "string"
+  | "bigint"
+  | "symbol"
+  | "function"
+  | "array"
+  | "date"
+  | "promise"
+  | "object";
+
+/**
+ * A dependency whose kind differs from the previous render.
+ */
+export interface DependencyKindChange {
+  /** Index of the dependency */
+  index: number;
+  /** Kind on the previous render */
+  prevKind: DependencyKind;
+  /** Kind on this render */
+  currentKind: DependencyKind;
+}
 
 /**
  * Result of comparing two dependency arrays.
@@ -21,6 +53,18 @@ export interface DepsChangeResult {
   prevLength?: number;
   /** Current length (if length changed) */
   currentLength?: number;
+  /** Dependencies present in both arrays whose kind changed */
+  kindChanges: DependencyKindChange[];
+}
+
+/**
+ * Options controlling how dependency changes are described.
+ */
+export interface DepsFormatOptions {
+  /** Labels for the dependency array, used instead of indices */
+  depNames?: readonly string[];
+  /** When set, changed dependencies are compared structurally */
+  deepCompare?: DeepCompareOptions;
 }
 
 /**
@@ -63,6 +107,22 @@ export function shallowEqual(a: unknown, b: unknown): boolean {
   return true;
 }
 
+/**
+ * Returns the kind of a dependency value.
+ *
+ * @param value - The dependency value
+ * @returns The kind, e.g. "null", "nan", "array" or "promise"
+ */
+export function getDependencyKind(value: unknown): DependencyKind {
+  if (value === null) return "null";
+  if (typeof value === "number") return Number.isNaN(value) ? "nan" : "number";
+  if (typeof value !== "object") return typeof value as DependencyKind;
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  if (typeof (value as { then?: unknown }).then === "function") return "promise";
+  return "object";
+}
+
 /**
  * Tracks changes between two dependency arrays.
  *
@@ -84,7 +144,7 @@ export function trackDependencyChanges(
 ): DepsChangeResult {
   // Handle undefined cases
   if (currentDeps === undefined && prevDeps === undefined) {
-    return { hasChanges: false, changedIndices: [], lengthChanged: false };
+    return { hasChanges: false, changedIndices: [], lengthChanged: false, kindChanges: [] };
   }
 
   if (currentDeps === undefined || prevDeps === undefined) {
@@ -94,10 +154,12 @@ export function trackDependencyChanges(
       lengthChanged: true,
       prevLength: prevDeps?.length,
       currentLength: currentDeps?.length,
+      kindChanges: [],
     };
   }
 
   const changedIndices: number[] = [];
+  const kindChanges: DependencyKindChange[] = [];
   const lengthChanged = currentDeps.length !== prevDeps.length;
 
   // Compare each dependency
@@ -105,6 +167,14 @@ export function trackDependencyChanges(
   for (let i = 0; i < maxLength; i++) {
     if (!Object.is(currentDeps[i], prevDeps[i])) {
       changedIndices.push(i);
+
+      if (i < currentDeps.length && i < prevDeps.length) {
+        const prevKind = getDependencyKind(prevDeps[i]);
+        const currentKind = getDependencyKind(currentDeps[i]);
+        if (prevKind !== currentKind) {
+          kindChanges.push({ index: i, prevKind, currentKind });
+        }
+      }
     }
   }
 
@@ -114,9 +184,134 @@ export function trackDependencyChanges(
     lengthChanged,
     prevLength: lengthChanged ? prevDeps.length : undefined,
     currentLength: lengthChanged ? currentDeps.length : undefined,
+    kindChanges,
   };
 }
 
+/**
+ * Per-dependency history kept across renders to spot slots that never
+ * settle. Create one per hook call with createDependencyStabilityTracker.
+ */
+export interface DependencyStabilityTracker {
+  /** Number of kind changes seen per index */
+  kindChangeCounts: number[];
+  /** Consecutive renders in which each index changed value */
+  changeStreaks: number[];
+}
+
+/**
+ * Dependencies found not to settle between renders.
+ */
+export interface DependencyStabilityResult {
+  /** Kind changes of indices that changed kind repeatedly */
+  repeatedKindChanges: DependencyKindChange[];
+  /** Indices holding a value that differs on every render */
+  volatileIndices: number[];
+}
+
+/** Kind changes of one slot before it is reported */
+export const KIND_CHANGE_MIN_COUNT = 2;
+
+/** Consecutive changed renders before a slot is reported as volatile */
+export const VOLATILE_MIN_STREAK = 3;
+
+/**
+ * Creates a new dependency stability tracker.
+ *
+ * @returns A fresh tracker
+ */
+export function createDependencyStabilityTracker(): DependencyStabilityTracker {
+  return { kindChangeCounts: [], changeStreaks: [] };
+}
+
+/**
+ * Updates the tracker with one render's changes and reports the slots that
+ * keep changing kind or hold a value that differs on every render.
+ *
+ * A slot is volatile when it changed on each of the last VOLATILE_MIN_STREAK
+ * renders and its value looks generated during render (see
+ * describeVolatileValue). Objects, arrays and functions are left to the
+ * unstable-dependency checks.
+ *
+ * @param tracker - The tracker of this hook call (updated in place)
+ * @param changes - Result of trackDependencyChanges for this render
+ * @param currentDeps - Current dependency array
+ * @returns The slots that do not settle
+ */
+export function updateDependencyStability(
+  tracker: DependencyStabilityTracker,
+  changes: DepsChangeResult,
+  currentDeps: React.DependencyList
+): DependencyStabilityResult {
+  const repeatedKindChanges: DependencyKindChange[] = [];
+  const volatileIndices: number[] = [];
+
+  for (const change of changes.kindChanges) {
+    const count = (tracker.kindChangeCounts[change.index] ?? 0) + 1;
+    tracker.kindChangeCounts[change.index] = count;
+    if (count >= KIND_CHANGE_MIN_COUNT) {
+      repeatedKindChanges.push(change);
+    }
+  }
+
+  const changed = new Set(changes.changedIndices);
+  tracker.changeStreaks.length = currentDeps.length;
+
+  for (let i = 0; i < currentDeps.length; i++) {
+    // Values that change because the render was caused by them (e.g. the
+    // text of an input) are fine; only values that look generated per render
+    // are tracked
+    const volatile = changed.has(i) && describeVolatileValue(currentDeps[i]) !== undefined;
+
+    tracker.changeStreaks[i] = volatile ? (tracker.changeStreaks[i] ?? 0) + 1 : 0;
+
+    if (tracker.changeStreaks[i] >= VOLATILE_MIN_STREAK) {
+      volatileIndices.push(i);
+    }
+  }
+
+  return { repeatedKindChanges, volatileIndices };
+}
+
+/**
+ * Explains where a volatile dependency value probably comes from.
+ *
+ * @param value - The current value of the dependency
+ * @returns A hint such as "looks like a timestamp from Date.now()", or
+ *   undefined when the value does not look generated during render
+ */
+export function describeVolatileValue(value: unknown): string | undefined {
+  const oneMinute = 60 * 1000;
+
+  switch (getDependencyKind(value)) {
+    case "promise":
+      return "a new Promise is created on every render";
+    case "date":
+      return "a new Date is created on every render";
+    case "number": {
+      const number = value as number;
+      if (Number.isInteger(number) && Math.abs(number - Date.now()) < oneMinute) {
+        return "looks like a timestamp from Date.now()";
+      }
+      // Fractions are not reported: they are as likely to be a progress or
+      // ratio prop as a Math.random() result
+      return undefined;
+    }
+    case "string": {
+      const text = value as string;
+      if (
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(text) &&
+        Math.abs(Date.parse(text) - Date.now()) < oneMinute
+      ) {
+        return "looks like the current time, e.g. new Date().toISOString()";
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Detects if the dependency array length changed between renders.
  *
@@ -141,13 +336,20 @@ export function detectDepsLengthChange(
  * Checks if any dependency is an unstable reference (newly created object/array/function).
  * This is a heuristic check that compares object identity.
  *
+ * By default, objects and arrays are flagged when they are shallowly equal to
+ * the previous value. With deep comparison, nested values, Maps, Sets, Dates
+ * and nested functions with the same source are flagged as well. Functions
+ * passed directly as dependencies are checked by detectInlineFunctionDeps.
+ *
  * @param currentDeps - Current dependency array
  * @param prevDeps - Previous dependency array
+ * @param deepCompare - Options for deep comparison, or undefined for shallow
  * @returns Indices of potentially unstable dependencies
  */
 export function detectUnstableDeps(
   currentDeps: React.DependencyList,
-  prevDeps: React.DependencyList | undefined
+  prevDeps: React.DependencyList | undefined,
+  deepCompare?: DeepCompareOptions
 ): number[] {
   if (!__DEV__ || !prevDeps) {
     return [];
@@ -159,16 +361,32 @@ export function detectUnstableDeps(
     const current = currentDeps[i];
     const prev = prevDeps[i];
 
+    if (current === prev) {
+      continue;
+    }
+
+    if (deepCompare) {
+      if (typeof current === "function") {
+        continue;
+      }
+      if (deepDiff(prev, current, `deps[${i}]`, deepCompare).kind === "identical") {
+        unstableIndices.push(i);
+      }
+      continue;
+    }
+
     // Check if both are objects/functions and have different identity
-    // but might have the same content (suggesting unstable reference)
+    // but might have the same content (suggesting unstable reference).
+    // Promises have no own properties to compare and are reported as
+    // volatile values instead.
     if (
-      current !== prev &&
+      getDependencyKind(current) !== "promise" &&
       typeof current === "object" &&
       current !== null &&
       typeof prev === "object" &&
       prev !== null
     ) {
-      // Deep equality check - if equal but different reference, it's unstable
+      // Shallow equality check - if equal but different reference, it's unstable
       if (shallowEqual(current, prev)) {
         unstableIndices.push(i);
       }
@@ -178,13 +396,279 @@ export function detectUnstableDeps(
   return unstableIndices;
 }
 
+/**
+ * Number of consecutive renders a function dependency must be recreated in
+ * before it is reported as an inline function.
+ */
+export const INLINE_FUNCTION_MIN_STREAK = 3;
+
+/** Functions returned by useSafeCallback and useSafeMemo */
+const memoizedFunctions = new WeakSet<object>();
+
+/**
+ * Records a function produced by a memoizing hook. Such a function only gets
+ * a new identity when the deps of its hook changed, so it is never reported
+ * as an inline function, however often that happens.
+ *
+ * @param fn - The memoized function
+ */
+export function markMemoizedFunction(fn: unknown): void {
+  if (typeof fn === "function") {
+    memoizedFunctions.add(fn);
+  }
+}
+
+/**
+ * Detects functions in the dependency array that are recreated on every
+ * render: their identity changes while their source text and arity stay the
+ * same, which is what an inline arrow function in the component body does.
+ * Functions from useSafeCallback and useSafeMemo (see markMemoizedFunction)
+ * are skipped.
+ *
+ * @param currentDeps - Current dependency array
+ * @param prevDeps - Previous dependency array
+ * @param streaks - Per-index count of consecutive renders in which the
+ *   function was recreated. Kept by the caller across renders (e.g. in a
+ *   ref) and updated in place.
+ * @returns Indices of functions recreated in each of the last
+ *   INLINE_FUNCTION_MIN_STREAK renders
+ */
+export function detectInlineFunctionDeps(
+  currentDeps: React.DependencyList,
+  prevDeps: React.DependencyList | undefined,
+  streaks: number[]
+): number[] {
+  if (!__DEV__ || !prevDeps) {
+    return [];
+  }
+
+  const inlineIndices: number[] = [];
+  streaks.length = currentDeps.length;
+
+  for (let i = 0; i < currentDeps.length; i++) {
+    const current = currentDeps[i];
+    const prev = prevDeps[i];
+
+    const recreated =
+      typeof current === "function" &&
+      typeof prev === "function" &&
+      current !== prev &&
+      !memoizedFunctions.has(current) &&
+      current.length === prev.length &&
+      String(current) === String(prev);
+
+    streaks[i] = recreated ? (streaks[i] ?? 0) + 1 : 0;
+
+    if (streaks[i] >= INLINE_FUNCTION_MIN_STREAK) {
+      inlineIndices.push(i);
+    }
+  }
+
+  return inlineIndices;
+}
+
+/**
+ * Returns how a dependency is referred to in warnings: its label when one
+ * was given, otherwise its position in the array.
+ *
+ * @param index - Index of the dependency
+ * @param depNames - Optional labels for the dependency array
+ * @returns The label (e.g. `` `userId` ``) or position (e.g. `deps[1]`)
+ */
+export function describeDependency(
+  index: number,
+  depNames?: readonly string[]
+): string {
+  const name = depNames?.[index];
+  return name ? `\`${name}\`` : `deps[${index}]`;
+}
+
+/**
+ * Formats a dependency value as a short, single-line preview.
+ * Plain objects show up to three of their properties, one level deep.
+ *
+ * @param value - The dependency value
+ * @param nested - Whether the value is a property of another value
+ * @returns The preview, e.g. `"abc"`, `Array(3)` or `{ id: 1, tags: Array(2) }`
+ */
+export function formatDependencyValue(value: unknown, nested = false): string {
+  switch (typeof value) {
+    case "string": {
+      const text = value.length > 30 ? `${value.slice(0, 30)}…` : value;
+      return JSON.stringify(text);
+    }
+    case "bigint":
+      return `${value}n`;
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `ƒ ${value.name || "anonymous"}()`;
+    case "object": {
+      if (value === null) {
+        return "null";
+      }
+      if (Array.isArray(value)) {
+        return `Array(${value.length})`;
+      }
+      const constructorName = Object.getPrototypeOf(value)?.constructor?.name;
+      if (constructorName && constructorName !== "Object") {
+        return `${constructorName} {…}`;
+      }
+      const keys = Object.keys(value);
+      if (keys.length === 0) {
+        return "{}";
+      }
+      if (nested) {
+        return "{…}";
+      }
+      const shown = keys
+        .slice(0, 3)
+        .map(
+          (key) =>
+            `${key}: ${formatDependencyValue((value as Record<string, unknown>)[key], true)}`
+        )
+        .join(", ");
+      return `{ ${shown}${keys.length > 3 ? ", …" : ""} }`;
+    }
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Describes dependencies that changed kind.
+ *
+ * @param kindChanges - The kind changes
+ * @param depNames - Optional labels for the dependency array
+ * @returns e.g. `` `user` changed from object to undefined ``
+ */
+export function formatKindChanges(
+  kindChanges: readonly DependencyKindChange[],
+  depNames?: readonly string[]
+): string {
+  return kindChanges
+    .map(
+      (change) =>
+        `${describeDependency(change.index, depNames)} changed from ` +
+        `${change.prevKind} to ${change.currentKind}`
+    )
+    .join("; ");
+}
+
+/**
+ * Describes volatile dependencies with their values and a hint about their
+ * probable source.
+ *
+ * @param indices - Indices of the volatile dependencies
+ * @param currentDeps - Current dependency array
+ * @param prevDeps - Previous dependency array
+ * @param depNames - Optional labels for the dependency array
+ * @returns e.g. `` `now`: 1718000000000 → 1718000000016 (looks like a timestamp from Date.now()) ``
+ */
+export function formatVolatileDeps(
+  indices: readonly number[],
+  currentDeps: React.DependencyList,
+  prevDeps: React.DependencyList,
+  depNames?: readonly string[]
+): string {
+  return indices
+    .map((index) => {
+      const hint = describeVolatileValue(currentDeps[index]);
+      return (
+        formatDependencyChanges([index], currentDeps, prevDeps, { depNames }) +
+        (hint ? ` (${hint})` : "")
+      );
+    })
+    .join("; ");
+}
+
+/**
+ * Describes where a changed dependency differs from its previous value.
+ *
+ * @param index - Index of the dependency
+ * @param currentDeps - Current dependency array
+ * @param prevDeps - Previous dependency array
+ * @param options - Formatting options (deep comparison must be enabled)
+ * @returns e.g. `` (structurally identical, new reference at `deps[2].sort`) ``,
+ *   or an empty string
+ */
+function describeDeepDifference(
+  index: number,
+  currentDeps: React.DependencyList,
+  prevDeps: React.DependencyList,
+  options: DepsFormatOptions
+): string {
+  if (!options.deepCompare || index >= currentDeps.length || index >= prevDeps.length) {
+    return "";
+  }
+
+  const root = options.depNames?.[index] || `deps[${index}]`;
+  const diff = deepDiff(prevDeps[index], currentDeps[index], root, options.deepCompare);
+
+  switch (diff.kind) {
+    case "identical": {
+      const paths = diff.newReferences.slice(0, 3).map((path) => `\`${path}\``);
+      const more = diff.newReferences.length > 3 ? ", …" : "";
+      return ` (structurally identical, new reference at ${paths.join(", ")}${more})`;
+    }
+    case "different":
+      return diff.path === root
+        ? ""
+        : ` (differs at \`${diff.path}\`: ${formatDependencyValue(diff.prev)} → ` +
+            `${formatDependencyValue(diff.current)})`;
+    case "budget-exceeded":
+      return " (too large to compare structurally)";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Describes how individual dependencies changed, naming each one and
+ * showing its previous and current value.
+ *
+ * @param indices - Indices of the dependencies to describe
+ * @param currentDeps - Current dependency array
+ * @param prevDeps - Previous dependency array
+ * @param options - Formatting options
+ * @returns e.g. `` `userId`: 1 → 2; `filters`: { status } → { status } ``
+ */
+export function formatDependencyChanges(
+  indices: readonly number[],
+  currentDeps: React.DependencyList,
+  prevDeps: React.DependencyList,
+  options: DepsFormatOptions = {}
+): string {
+  return indices
+    .map((index) => {
+      const prev = index < prevDeps.length ? formatDependencyValue(prevDeps[index]) : "(none)";
+      const current =
+        index < currentDeps.length ? formatDependencyValue(currentDeps[index]) : "(none)";
+      return (
+        `${describeDependency(index, options.depNames)}: ${prev} → ${current}` +
+        describeDeepDifference(index, currentDeps, prevDeps, options)
+      );
+    })
+    .join("; ");
+}
+
 /**
  * Formats dependency change information for display in warnings.
+ * When the dependency arrays are passed, each changed dependency is named
+ * together with its previous and current value.
  *
  * @param changes - The dependency change result
+ * @param currentDeps - Current dependency array
+ * @param prevDeps - Previous dependency array
+ * @param options - Formatting options
  * @returns A human-readable string describing the changes
  */
-export function formatDepsChanges(changes: DepsChangeResult): string {
+export function formatDepsChanges(
+  changes: DepsChangeResult,
+  currentDeps?: React.DependencyList,
+  prevDeps?: React.DependencyList,
+  options: DepsFormatOptions = {}
+): string {
   if (!changes.hasChanges) {
     return "No changes detected.";
   }
@@ -198,8 +682,21 @@ export function formatDepsChanges(changes: DepsChangeResult): string {
   }
 
   if (changes.changedIndices.length > 0) {
-    const indices = changes.changedIndices.join(", ");
-    parts.push(`Dependencies at indices [${indices}] changed.`);
+    if (currentDeps && prevDeps) {
+      parts.push(
+        `Changed: ${formatDependencyChanges(
+          changes.changedIndices,
+          currentDeps,
+          prevDeps,
+          options
+        )}.`
+      );
+    } else {
+      const names = changes.changedIndices
+        .map((index) => describeDependency(index, options.depNames))
+        .join(", ");
+      parts.push(`Changed dependencies: ${names}.`);
+    }
   }
 
   return parts.join(" ");
@@ -0,0 +1,121 @@
+/**
+ * Feedback-loop detection for effects.
+ *
+ * An effect that sets state its own dependencies are derived from re-runs
+ * after every update. React only stops synchronous update loops, so loops
+ * that pass through a commit can keep an effect running many times per
+ * second. Each effect instance records when it ran and which dependencies
+ * changed, over a sliding time window.
+ */
+
+import type { DependencyList } from "react";
+import { trackDependencyChanges } from "./depsTracker";
+
+/**
+ * One run of an effect within the window.
+ */
+interface EffectRun {
+  /** Time of the run, in milliseconds */
+  time: number;
+  /** Dependencies that changed since the previous run (null for the first run) */
+  changedIndices: number[] | null;
+}
+
+/**
+ * Tracks the recent runs of one effect instance.
+ */
+export interface EffectRunTracker {
+  /** Runs within the window, oldest first */
+  runs: EffectRun[];
+  /** Whether the effect ran before */
+  hasRun: boolean;
+  /** Dependencies of the last run */
+  lastDeps: DependencyList | undefined;
+}
+
+/**
+ * How many runs within how much time count as a loop.
+ */
+export interface EffectLoopLimits {
+  /** Runs within the window that count as a loop */
+  maxRuns: number;
+  /** Length of the window, in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Result of recording an effect run.
+ */
+export interface EffectLoopResult {
+  /** Whether the effect ran at least maxRuns times within the window */
+  isLoop: boolean;
+  /** Runs within the window, including this one */
+  runCount: number;
+  /** Dependencies that changed on every run within the window */
+  changedIndices: number[];
+  /** Dependencies of the previous run */
+  prevDeps: DependencyList | undefined;
+}
+
+/**
+ * Creates an empty run tracker.
+ *
+ * @returns A new tracker
+ */
+export function createEffectRunTracker(): EffectRunTracker {
+  return { runs: [], hasRun: false, lastDeps: undefined };
+}
+
+/**
+ * Records a run of an effect and checks whether it is running in a loop.
+ * Only the runs within the window are kept, and at most maxRuns of them.
+ *
+ * @param tracker - The tracker of the effect instance (mutated)
+ * @param deps - Dependencies of this run
+ * @param now - Current time, in milliseconds
+ * @param limits - Loop limits
+ * @returns Whether the effect is looping, and the dependencies driving it
+ */
+export function recordEffectRun(
+  tracker: EffectRunTracker,
+  deps: DependencyList | undefined,
+  now: number,
+  limits: EffectLoopLimits
+): EffectLoopResult {
+  const prevDeps = tracker.lastDeps;
+  const changedIndices = tracker.hasRun
+    ? trackDependencyChanges(deps, prevDeps).changedIndices
+    : null;
+
+  tracker.hasRun = true;
+  tracker.lastDeps = deps;
+  tracker.runs.push({ time: now, changedIndices });
+
+  const windowStart = now - limits.windowMs;
+  while (
+    tracker.runs.length > 0 &&
+    (tracker.runs[0].time < windowStart || tracker.runs.length > limits.maxRuns)
+  ) {
+    tracker.runs.shift();
+  }
+
+  const runCount = tracker.runs.length;
+  if (runCount < limits.maxRuns) {
+    return { isLoop: false, runCount, changedIndices: [], prevDeps };
+  }
+
+  // Dependencies that changed on every run after the first one
+  let changedOnEveryRun: number[] | null = null;
+  for (const run of tracker.runs) {
+    if (run.changedIndices === null) {
+      continue;
+    }
+    const indices: number[] = run.changedIndices;
+    changedOnEveryRun =
+      changedOnEveryRun === null
+        ? indices
+        : changedOnEveryRun.filter((index) => indices.includes(index));
+  }
+
+  return { isLoop: true, runCount, changedIndices: changedOnEveryRun ?? [], prevDeps };
+}
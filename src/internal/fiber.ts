@@ -0,0 +1,214 @@
+/**
+ * Access to the React fiber that is currently rendering.
+ *
+ * React exposes the rendering component ("owner") to development tooling
+ * through its internals object. The shape differs between React versions,
+ * so every access is defensive and returns null when it is unavailable.
+ */
+
+import * as React from "react";
+
+/**
+ * The subset of a React fiber this library reads.
+ */
+export interface Fiber {
+  /** Element type as written in JSX (may be a memo or lazy wrapper) */
+  elementType: unknown;
+  /** Resolved component type */
+  type: unknown;
+  /** React key of the element, if any */
+  key: string | null;
+  /** Parent fiber */
+  return: Fiber | null;
+}
+
+/**
+ * React 18 internals: the owner is kept in ReactCurrentOwner.
+ */
+interface React18Internals {
+  ReactCurrentOwner?: { current: Fiber | null };
+}
+
+/**
+ * React 19 internals: the owner is read from the async dispatcher.
+ */
+interface React19Internals {
+  A?: { getOwner?: () => Fiber | null } | null;
+}
+
+const REACT_FORWARD_REF_TYPE = Symbol.for("react.forward_ref");
+const REACT_MEMO_TYPE = Symbol.for("react.memo");
+const REACT_LAZY_TYPE = Symbol.for("react.lazy");
+
+/** Status of a lazy component whose module has loaded */
+const LAZY_RESOLVED = 1;
+
+const internals = React as unknown as {
+  __SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED?: React18Internals;
+  __CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE?: React19Internals;
+};
+
+/**
+ * Returns the fiber of the component that is currently rendering.
+ * React only tracks the owner in development builds.
+ *
+ * @returns The rendering fiber, or null outside of render or when the
+ *   React version does not expose it
+ */
+export function getCurrentOwnerFiber(): Fiber | null {
+  try {
+    const react19 = internals.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE;
+    if (react19) {
+      return react19.A?.getOwner?.() ?? null;
+    }
+
+    const react18 = internals.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED;
+    return react18?.ReactCurrentOwner?.current ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the display name of a component type.
+ * Respects `displayName` and unwraps memo, forwardRef and resolved lazy
+ * components.
+ *
+ * @param type - A component type (function, class or wrapper object)
+ * @returns The name, or undefined for host elements and anonymous components
+ */
+export function getComponentNameFromType(type: unknown): string | undefined {
+  if (typeof type === "function") {
+    const component = type as { displayName?: unknown; name?: string };
+    return typeof component.displayName === "string"
+      ? component.displayName
+      : component.name || undefined;
+  }
+
+  if (typeof type !== "object" || type === null) {
+    return undefined;
+  }
+
+  const wrapper = type as {
+    $$typeof?: symbol;
+    displayName?: unknown;
+    render?: unknown;
+    type?: unknown;
+    _payload?: { _status?: number; _result?: unknown };
+  };
+
+  if (typeof wrapper.displayName === "string") {
+    return wrapper.displayName;
+  }
+
+  switch (wrapper.$$typeof) {
+    case REACT_FORWARD_REF_TYPE:
+      return getComponentNameFromType(wrapper.render);
+    case REACT_MEMO_TYPE:
+      return getComponentNameFromType(wrapper.type);
+    case REACT_LAZY_TYPE: {
+      const payload = wrapper._payload;
+      if (payload?._status === LAZY_RESOLVED) {
+        const result = payload._result as { default?: unknown } | undefined;
+        return getComponentNameFromType(result?.default ?? result);
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether a type is a user component (function, class, memo,
+ * forwardRef or lazy), as opposed to host elements, fragments and providers.
+ *
+ * @param type - An element type
+ * @returns True for component types
+ */
+function isComponentType(type: unknown): boolean {
+  if (typeof type === "function") {
+    return true;
+  }
+
+  const $$typeof = (type as { $$typeof?: symbol } | null)?.$$typeof;
+  return (
+    $$typeof === REACT_FORWARD_REF_TYPE ||
+    $$typeof === REACT_MEMO_TYPE ||
+    $$typeof === REACT_LAZY_TYPE
+  );
+}
+
+/**
+ * Returns the memo fiber wrapping a component, if any.
+ * `memo` components with a custom comparison get a fiber of their own above
+ * the fiber of the wrapped component.
+ *
+ * @param fiber - The fiber of the wrapped component
+ * @returns The wrapping memo fiber, or null
+ */
+function getMemoParent(fiber: Fiber): Fiber | null {
+  const parent = fiber.return;
+  const wrapper = parent?.elementType as { $$typeof?: symbol; type?: unknown } | undefined;
+
+  return wrapper?.$$typeof === REACT_MEMO_TYPE && wrapper.type === fiber.type
+    ? parent
+    : null;
+}
+
+/**
+ * Returns the display name of the component a fiber renders.
+ * The element type is checked first so a `displayName` set on a memo or
+ * forwardRef wrapper wins over the inner function name.
+ *
+ * @param fiber - The fiber
+ * @returns The name, or undefined if the component is anonymous
+ */
+export function getFiberComponentName(fiber: Fiber): string | undefined {
+  const memoParent = getMemoParent(fiber);
+  if (memoParent) {
+    return getFiberComponentName(memoParent);
+  }
+
+  return (
+    getComponentNameFromType(fiber.elementType) ?? getComponentNameFromType(fiber.type)
+  );
+}
+
+/**
+ * Returns the React key of the element a fiber renders.
+ * For components wrapped in `memo`, the key sits on the wrapper.
+ *
+ * @param fiber - The fiber
+ * @returns The key, or undefined if the element has none
+ */
+export function getFiberKey(fiber: Fiber): string | undefined {
+  return (getMemoParent(fiber) ?? fiber).key ?? undefined;
+}
+
+/** Maximum number of components listed in an ancestry path */
+const MAX_ANCESTRY_DEPTH = 30;
+
+/**
+ * Returns the names of the components from the root down to a fiber.
+ * Host elements, fragments and providers are left out. Anonymous components
+ * are listed as "Anonymous". Deep trees are cut off at the root side.
+ *
+ * @param fiber - The fiber of the component
+ * @returns Component names, outermost first, ending with the component itself
+ */
+export function getFiberAncestry(fiber: Fiber): string[] {
+  const path: string[] = [];
+  let current: Fiber | null = fiber;
+
+  while (current && path.length < MAX_ANCESTRY_DEPTH) {
+    if (isComponentType(current.elementType)) {
+      path.push(getFiberComponentName(current) ?? "Anonymous");
+      // The memo wrapper was named together with the wrapped component
+      current = getMemoParent(current) ?? current;
+    }
+    current = current.return;
+  }
+
+  return path.reverse();
+}
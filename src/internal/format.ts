@@ -0,0 +1,73 @@
+/**
+ * Text formatting for react-safe-hooks warnings.
+ */
+
+import { WARNING_RULES } from "./rules";
+import type { SafeHookWarning, WarningConfig } from "./warn";
+
+/**
+ * Creates a formatted warning message following the react-safe-hooks style.
+ *
+ * @param config - Warning configuration
+ * @returns Formatted warning string
+ *
+ * @example
+ * ```
+ * ⚠️ react-safe-hooks warning [RSH-DEPS-001]:
+ *
+ * Component: UserProfile (key "42")
+ * Path: App > Dashboard > UserProfile
+ * Hook: useSafeEffect
+ * Location: src/UserProfile.tsx:12:3
+ *
+ * Dependency array length changed between renders.
+ * This may cause unexpected behavior.
+ *
+ * Fix:
+ * Ensure your dependency array has a stable length.
+ * ```
+ */
+export function createWarning(config: WarningConfig | SafeHookWarning): string {
+  const lines: string[] = [
+    `⚠️ react-safe-hooks warning [${WARNING_RULES[config.rule].code}]:`,
+    "",
+  ];
+
+  if (config.componentName) {
+    const key = config.ancestry?.key;
+    lines.push(
+      `Component: ${config.componentName}` +
+        (key !== undefined ? ` (key ${JSON.stringify(key)})` : "")
+    );
+  }
+  if (config.ancestry && config.ancestry.path.length > 1) {
+    lines.push(`Path: ${config.ancestry.path.join(" > ")}`);
+  }
+  lines.push(`Hook: ${config.hookName}`);
+  if (config.location) {
+    const { file, line, column } = config.location;
+    lines.push(`Location: ${file}:${line}:${column}`);
+  }
+  lines.push("");
+  lines.push(config.message);
+
+  if (config.details) {
+    lines.push(config.details);
+  }
+
+  if ("occurrences" in config && config.occurrences) {
+    const { count, firstSeen, lastSeen } = config.occurrences;
+    lines.push(
+      `Occurred ${count} time${count === 1 ? "" : "s"} ` +
+        `in ${((lastSeen - firstSeen) / 1000).toFixed(1)}s.`
+    );
+  }
+
+  if (config.fix) {
+    lines.push("");
+    lines.push("Fix:");
+    lines.push(config.fix);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,169 @@
+/**
+ * Warning history for react-safe-hooks.
+ *
+ * Keeps a bounded record of every warning reported during the session so
+ * tooling and tests can inspect what fired. Repeated occurrences of the same
+ * warning are folded into one entry with an occurrence count.
+ */
+
+import type { SafeHookWarning } from "./warn";
+
+/**
+ * A warning recorded in the history.
+ */
+export interface SafeHookWarningEntry extends SafeHookWarning {
+  /** Deduplication key (component + hook + rule, plus call site and instance when known) */
+  key: string;
+  /** Number of times the warning occurred, including deduplicated repeats */
+  count: number;
+  /** Timestamp (ms since epoch) of the first occurrence */
+  firstSeen: number;
+  /** Timestamp (ms since epoch) of the latest occurrence */
+  lastSeen: number;
+}
+
+/**
+ * Called whenever the history changes.
+ *
+ * @param latest - The entry that was added or updated, or null when the
+ *   history was cleared
+ * @param entries - The full history after the change
+ */
+export type SafeHookWarningListener = (
+  latest: SafeHookWarningEntry | null,
+  entries: readonly SafeHookWarningEntry[]
+) => void;
+
+/** Default maximum number of entries kept in the history */
+export const DEFAULT_HISTORY_LIMIT = 200;
+
+/** Entries by key, ordered from least to most recently seen */
+const entries = new Map<string, SafeHookWarningEntry>();
+
+/** Cached array returned by getSafeHookWarnings, rebuilt on change */
+let snapshot: readonly SafeHookWarningEntry[] = [];
+
+/** Registered listeners */
+const listeners = new Set<SafeHookWarningListener>();
+
+/** Maximum number of entries kept */
+let historyLimit = DEFAULT_HISTORY_LIMIT;
+
+/**
+ * Records an occurrence of a warning.
+ * When the history is full, the least recently seen entry is dropped.
+ *
+ * @param key - Deduplication key of the warning
+ * @param warning - The warning that occurred
+ * @returns The updated history entry
+ */
+export function recordWarning(
+  key: string,
+  warning: SafeHookWarning
+): SafeHookWarningEntry {
+  const now = Date.now();
+  const existing = entries.get(key);
+
+  const entry: SafeHookWarningEntry = {
+    ...warning,
+    key,
+    count: existing ? existing.count + 1 : 1,
+    firstSeen: existing ? existing.firstSeen : now,
+    lastSeen: now,
+  };
+
+  // Re-insert so the map stays ordered by last occurrence
+  entries.delete(key);
+  entries.set(key, entry);
+  trimHistory();
+  notify(entry);
+
+  return entry;
+}
+
+/**
+ * Rebuilds the snapshot and informs every listener of a change.
+ *
+ * @param latest - The entry that changed, or null when the history was cleared
+ */
+function notify(latest: SafeHookWarningEntry | null): void {
+  snapshot = Array.from(entries.values());
+
+  for (const listener of listeners) {
+    try {
+      listener(latest, snapshot);
+    } catch (error) {
+      console.error("react-safe-hooks: a warning listener threw an error.", error);
+    }
+  }
+}
+
+/**
+ * Drops the least recently seen entries until the history fits its limit.
+ */
+function trimHistory(): void {
+  while (entries.size > historyLimit) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Returns every warning recorded in this session, ordered from least to most
+ * recently seen. The returned array is replaced, not mutated, on change.
+ *
+ * @returns The recorded warnings
+ *
+ * @example
+ * ```ts
+ * const staleClosures = getSafeHookWarnings().filter(
+ *   (entry) => entry.rule === "stale-closure"
+ * );
+ * ```
+ */
+export function getSafeHookWarnings(): readonly SafeHookWarningEntry[] {
+  return snapshot;
+}
+
+/**
+ * Subscribes to warnings as they are recorded.
+ *
+ * @param listener - Called with each new or updated entry, and with null
+ *   when the history is cleared
+ * @returns A function that removes the listener
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToSafeHookWarnings((entry) => {
+ *   if (entry) devPanel.show(entry.code, entry.message);
+ * });
+ * ```
+ */
+export function subscribeToSafeHookWarnings(
+  listener: SafeHookWarningListener
+): () => void {
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Sets the maximum number of entries kept in the history.
+ *
+ * @param limit - The new limit
+ */
+export function setHistoryLimit(limit: number): void {
+  historyLimit = Math.max(0, limit);
+  trimHistory();
+  snapshot = Array.from(entries.values());
+}
+
+/**
+ * Removes every entry from the history and informs the listeners.
+ */
+export function clearHistory(): void {
+  entries.clear();
+  notify(null);
+}
@@ -0,0 +1,229 @@
+/**
+ * Warnings shared between hooks.
+ *
+ * Several hooks run the same checks on their dependency arrays, and the
+ * effect hooks share their checks of effect runs. The checks and their
+ * messages live here so every hook reports them the same way.
+ */
+
+import type { DependencyList } from "react";
+import { warnOnce, createWarningKey, type WarningConfig } from "./warn";
+import { recordEffectRun, type EffectLoopLimits, type EffectRunTracker } from "./effectRuns";
+import {
+  describeDependency,
+  detectInlineFunctionDeps,
+  formatDependencyChanges,
+  formatDependencyValue,
+  formatKindChanges,
+  getDependencyKind,
+  formatVolatileDeps,
+  updateDependencyStability,
+  VOLATILE_MIN_STREAK,
+  type DependencyStabilityTracker,
+  type DepsChangeResult,
+  type DepsFormatOptions,
+} from "./depsTracker";
+
+/**
+ * The hook call a shared warning is reported for.
+ */
+export interface HookWarningContext
+  extends Pick<WarningConfig, "componentName" | "ancestry" | "location" | "rules"> {
+  /** Name of the hook, as shown in warnings */
+  hookName: string;
+  /** How dependencies are named and compared in warnings */
+  depsFormat: DepsFormatOptions;
+}
+
+/**
+ * Per-call state of the dependency stability checks, kept across renders
+ * (e.g. in refs).
+ */
+export interface DependencyStabilityTrackers {
+  /** Consecutive renders in which each function dependency was recreated */
+  functionStreaks: number[];
+  /** Kind changes and change streaks of each dependency */
+  stability: DependencyStabilityTracker;
+}
+
+/**
+ * Reports dependencies that never stay equal between renders: inline
+ * functions recreated on every render, values that keep changing type and
+ * values generated during render.
+ *
+ * @param ctx - The hook call
+ * @param changes - Result of trackDependencyChanges for this render
+ * @param deps - Current dependency array
+ * @param prevDeps - Dependency array of the previous render
+ * @param trackers - State of the checks for this hook call (updated in place)
+ */
+export function reportDependencyStability(
+  ctx: HookWarningContext,
+  changes: DepsChangeResult,
+  deps: DependencyList,
+  prevDeps: DependencyList,
+  trackers: DependencyStabilityTrackers
+): void {
+  const { hookName, componentName, ancestry, location, rules, depsFormat } = ctx;
+
+  // Check for inline functions recreated on every render
+  const inlineFunctionIndices = detectInlineFunctionDeps(
+    deps,
+    prevDeps,
+    trackers.functionStreaks
+  );
+  if (inlineFunctionIndices.length > 0) {
+    warnOnce(createWarningKey(hookName, "inline-function-deps", componentName), {
+      rule: "inline-function-deps",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules,
+      message: "Inline function in dependency array is recreated on every render.",
+      details:
+        `${inlineFunctionIndices
+          .map((index) => describeDependency(index, depsFormat.depNames))
+          .join(", ")} ` +
+        "gets a new identity on every render although its source stays the same, " +
+        "so the dependencies never stay equal.",
+      fix:
+        "Wrap the function in useSafeCallback (or useCallback) where it is defined, " +
+        "or move it outside the component if it doesn't use props or state.",
+    });
+  }
+
+  // Check for dependencies that never settle
+  const stability = updateDependencyStability(trackers.stability, changes, deps);
+  if (stability.repeatedKindChanges.length > 0) {
+    warnOnce(createWarningKey(hookName, "deps-kind-change", componentName), {
+      rule: "deps-kind-change",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules,
+      message: "Dependency keeps changing type between renders.",
+      details:
+        `${formatKindChanges(stability.repeatedKindChanges, depsFormat.depNames)}, ` +
+        "after changing type before. Switching between kinds (e.g. object and " +
+        "undefined, or string and number) usually hides a bug.",
+      fix:
+        "Keep each dependency the same type on every render: use one value for " +
+        '"nothing" (e.g. always null), or depend on a primitive such as user?.id.',
+    });
+  }
+  if (stability.volatileIndices.length > 0) {
+    warnOnce(createWarningKey(hookName, "volatile-deps", componentName), {
+      rule: "volatile-deps",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules,
+      message: "Dependency has a different value on every render.",
+      details:
+        formatVolatileDeps(stability.volatileIndices, deps, prevDeps, depsFormat.depNames) +
+        `. The value was different on each of the last ${VOLATILE_MIN_STREAK} renders, ` +
+        "so the dependencies never stay equal.",
+      fix:
+        "Create the value inside the effect or callback, or keep it in state or a ref. " +
+        "Values like Date.now(), new Date() or new Promise() differ on every render.",
+    });
+  }
+}
+
+/**
+ * Records a run of an effect and reports the effect when it keeps running
+ * again, which usually means it sets state its own dependencies derive from.
+ *
+ * @param ctx - The hook call
+ * @param tracker - Run tracker of this effect instance (updated in place)
+ * @param deps - Dependencies of this run (undefined without a dependency array)
+ * @param limits - How many runs within how much time count as a loop
+ */
+export function reportEffectLoop(
+  ctx: HookWarningContext,
+  tracker: EffectRunTracker,
+  deps: DependencyList | undefined,
+  limits: EffectLoopLimits
+): void {
+  const { hookName, componentName, ancestry, location, rules, depsFormat } = ctx;
+
+  const loop = recordEffectRun(tracker, deps, Date.now(), limits);
+  if (loop.isLoop) {
+    warnOnce(createWarningKey(hookName, "effect-loop", componentName), {
+      rule: "effect-loop",
+      componentName,
+      ancestry,
+      location,
+      hookName,
+      rules,
+      message: "Effect is re-running in a loop.",
+      details:
+        `${hookName} ran ${loop.runCount} times within ${limits.windowMs}ms. ` +
+        (loop.changedIndices.length > 0
+          ? "Dependencies that changed on every run: " +
+            formatDependencyChanges(
+              loop.changedIndices,
+              deps ?? [],
+              loop.prevDeps ?? [],
+              depsFormat
+            ) +
+            "."
+          : deps === undefined
+            ? "It has no dependency array, so every render runs it again."
+            : "No single dependency changed on every run."),
+      fix:
+        "An effect that sets state its dependencies are derived from runs again after " +
+        "every update. Compute the value during render instead, only set state when " +
+        "the value differs, or use a functional state update and drop the dependency.",
+    });
+  }
+}
+
+/**
+ * Reports an effect callback that returned something other than a cleanup
+ * function or undefined, such as the Promise of an async callback.
+ *
+ * @param ctx - The hook call
+ * @param returned - The value the effect callback returned
+ * @param effectHook - Hook used in the suggested fix
+ */
+export function reportInvalidEffectReturn(
+  ctx: HookWarningContext,
+  returned: unknown,
+  effectHook: "useSafeEffect" | "useSafeLayoutEffect"
+): void {
+  if (returned === undefined || typeof returned === "function") {
+    return;
+  }
+
+  const { hookName, componentName, ancestry, location, rules } = ctx;
+  const isPromise = getDependencyKind(returned) === "promise";
+  warnOnce(createWarningKey(hookName, "invalid-effect-return", componentName), {
+    rule: "invalid-effect-return",
+    componentName,
+    ancestry,
+    location,
+    hookName,
+    rules,
+    message: "Effect returned something other than a cleanup function.",
+    details: isPromise
+      ? `${hookName} returned a Promise, so the effect callback is probably async. ` +
+        "React ignores the Promise, and a cleanup function it resolves to never runs."
+      : `${hookName} returned ${formatDependencyValue(returned)}. React ignores ` +
+        "anything other than a cleanup function or undefined, so no cleanup runs.",
+    fix: isPromise
+      ? "Keep the effect callback synchronous and call an async function from it:\n" +
+        `  ${effectHook}(() => {\n` +
+        "    const load = async () => {\n" +
+        "      setData(await fetchData());\n" +
+        "    };\n" +
+        "    load();\n" +
+        "  }, [deps]);"
+      : "Return a cleanup function or nothing. Watch out for arrow functions that " +
+        "return a value implicitly: write () => { doSomething(); } instead of " +
+        "() => doSomething().",
+  });
+}
@@ -7,37 +7,195 @@
 
 export { __DEV__, devOnly, devValue } from "./devOnly";
 
+export { createWarning } from "./format";
+
 export {
-  createWarning,
+  createSafeHookWarning,
   warnOnce,
   warn,
   createWarningKey,
   clearWarnings,
+  SafeHooksError,
   type WarningConfig,
+  type SafeHookWarning,
+  type WarningOccurrences,
 } from "./warn";
 
 export {
+  WARNING_RULES,
+  resolveRuleLevel,
+  setGlobalRules,
+  getGlobalRules,
+  type RuleLevel,
+  type SafeHooksRules,
+  type WarningRule,
+  type WarningSeverity,
+  type WarningRuleDefinition,
+} from "./rules";
+
+export {
+  recordWarning,
+  getSafeHookWarnings,
+  subscribeToSafeHookWarnings,
+  setHistoryLimit,
+  clearHistory,
+  DEFAULT_HISTORY_LIMIT,
+  type SafeHookWarningEntry,
+  type SafeHookWarningListener,
+} from "./history";
+
+export {
+  setAggregation,
+  isAggregationEnabled,
+  aggregateWarning,
+  flushSafeHookWarnings,
+  discardAggregatedWarnings,
+  DEFAULT_AGGREGATE_WINDOW_MS,
+  type AggregateOptions,
+} from "./aggregate";
+
+export {
+  createSafeHookReport,
+  formatNDJSON,
+  formatSARIF,
+  type SafeHookReportFormat,
+  type SarifOptions,
+} from "./report";
+
+export {
+  consoleReporter,
+  addSafeHooksReporter,
+  getReporters,
+  setReporters,
+  report,
+  type SafeHooksReporter,
+} from "./reporter";
+
+export {
+  DEFAULT_THRESHOLDS,
+  setGlobalThresholds,
+  getGlobalThresholds,
+  type SafeHooksThresholds,
+} from "./thresholds";
+
+export {
+  SafeHooksScopeContext,
+  mergeScope,
+  isSameScope,
+  useSafeHooksScope,
+  type SafeHooksScopeConfig,
+  type SafeHooksScope,
+  type ResolvedSafeHooksScope,
+} from "./scope";
+
+export {
+  configureSafeHooks,
+  resetSafeHooksConfig,
+  type SafeHooksConfig,
+} from "./config";
+
+export {
+  parseStackFrames,
+  useHookCallSite,
+  useComponentAncestry,
   useComponentName,
   usePrevious,
   useRenderCount,
   useIsFirstRender,
+  type ComponentAncestry,
+  type SourceLocation,
+  type StackFrame,
 } from "./componentName";
 
+export {
+  getCurrentOwnerFiber,
+  getComponentNameFromType,
+  getFiberComponentName,
+  getFiberAncestry,
+  getFiberKey,
+  type Fiber,
+} from "./fiber";
+
 export {
   shallowEqual,
   trackDependencyChanges,
   detectDepsLengthChange,
   detectUnstableDeps,
+  detectInlineFunctionDeps,
+  markMemoizedFunction,
+  INLINE_FUNCTION_MIN_STREAK,
   formatDepsChanges,
+  describeDependency,
+  formatDependencyValue,
+  formatDependencyChanges,
+  getDependencyKind,
+  createDependencyStabilityTracker,
+  updateDependencyStability,
+  describeVolatileValue,
+  formatKindChanges,
+  formatVolatileDeps,
+  KIND_CHANGE_MIN_COUNT,
+  VOLATILE_MIN_STREAK,
+  type DependencyKind,
+  type DependencyKindChange,
+  type DependencyStabilityTracker,
+  type DependencyStabilityResult,
   type DepsChangeResult,
+  type DepsFormatOptions,
 } from "./depsTracker";
 
+export {
+  logDependencyChanges,
+  type DependencyChangeLog,
+} from "./changeLog";
+
+export {
+  reportDependencyStability,
+  reportEffectLoop,
+  reportInvalidEffectReturn,
+  type HookWarningContext,
+  type DependencyStabilityTrackers,
+} from "./hookWarnings";
+
+export {
+  createEffectRunTracker,
+  recordEffectRun,
+  type EffectRunTracker,
+  type EffectLoopLimits,
+  type EffectLoopResult,
+} from "./effectRuns";
+
+export {
+  deepDiff,
+  toDeepCompareOptions,
+  DEFAULT_DEEP_COMPARE_MAX_NODES,
+  type DeepCompareOptions,
+  type DeepDiffResult,
+} from "./deepDiff";
+
+export {
+  runInstrumented,
+  createResourceTracker,
+  findLeakedResources,
+  formatLeakedResources,
+  releaseResourceTracker,
+  type InstrumentedSource,
+  type InstrumentedCallback,
+  type CallbackWrapper,
+  type InstrumentOptions,
+  type ResourceSource,
+  type TrackedResource,
+  type ResourceTracker,
+} from "./instrument";
+
 export {
   isExcessiveCallbackChange,
   detectStaleClosure,
+  findStaleCapturedDeps,
   createCallbackTracker,
   updateCallbackTracker,
   type StaleClosureResult,
   type CallbackStabilityResult,
   type CallbackTracker,
+  type CallbackGeneration,
 } from "./closureTracker";
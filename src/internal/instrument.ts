@@ -0,0 +1,575 @@
+/**
+ * Instrumentation of timers, event listeners and other resources created by
+ * effects.
+ *
+ * While an instrumented effect body runs, the global timer functions,
+ * `EventTarget.prototype.addEventListener` and the observer and
+ * AbortController constructors are temporarily replaced, so callbacks can be
+ * wrapped and the resources they create can be tracked. They are restored
+ * before the effect returns. Only the disposal APIs stay patched once they
+ * are needed: `removeEventListener` after the first listener was
+ * instrumented, and `clearTimeout`/`clearInterval` once timers are tracked.
+ * That way removing or clearing works, and is recorded, wherever the call
+ * happens.
+ */
+
+/**
+ * API through which a callback was registered.
+ */
+export type InstrumentedSource =
+  | "setTimeout"
+  | "setInterval"
+  | "requestAnimationFrame"
+  | "addEventListener";
+
+/**
+ * A callback registered by an instrumented effect.
+ */
+export interface InstrumentedCallback {
+  /** API the callback was registered with */
+  source: InstrumentedSource;
+  /** Event type, for listeners */
+  eventType?: string;
+}
+
+/**
+ * Wraps a callback registered by an instrumented effect.
+ *
+ * @param callback - The callback passed to the timer or listener API
+ * @param registration - How the callback was registered
+ * @returns The function to register instead
+ */
+export type CallbackWrapper = (
+  callback: (...args: unknown[]) => unknown,
+  registration: InstrumentedCallback
+) => (...args: unknown[]) => unknown;
+
+/**
+ * Kind of resource tracked for leak detection.
+ */
+export type ResourceSource =
+  | "setTimeout"
+  | "setInterval"
+  | "addEventListener"
+  | "ResizeObserver"
+  | "MutationObserver"
+  | "IntersectionObserver"
+  | "AbortController";
+
+/**
+ * A resource created by an instrumented effect.
+ */
+export interface TrackedResource {
+  /** API that created the resource */
+  source: ResourceSource;
+  /** Event type, for listeners */
+  eventType?: string;
+  /** Whether the resource is still live (pending timer, attached listener, observing) */
+  active: boolean;
+  /** Signal that disposes the resource when aborted (AbortController, listener `signal`) */
+  signal?: AbortSignal;
+  /** Timer id, for timers */
+  timerId?: unknown;
+}
+
+/**
+ * Resources created by one run of an effect.
+ */
+export interface ResourceTracker {
+  /** Resources in creation order */
+  resources: TrackedResource[];
+}
+
+/**
+ * Options for running an effect body with instrumentation.
+ */
+export interface InstrumentOptions {
+  /** Wraps each timer, animation frame and listener callback */
+  wrap?: CallbackWrapper;
+  /** Records the resources created, for leak detection */
+  tracker?: ResourceTracker;
+}
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+/**
+ * An instrumented listener, kept so removals of the original listener can be
+ * applied to the registered wrapper.
+ */
+interface ListenerRegistration {
+  target: EventTarget;
+  type: string;
+  capture: boolean;
+  wrapped: AnyFunction;
+  resource?: TrackedResource;
+}
+
+/** Instrumented registrations by original listener */
+const listenerRegistrations = new WeakMap<AnyFunction, ListenerRegistration[]>();
+
+/** Whether removeEventListener translates instrumented listeners */
+let removalTranslationInstalled = false;
+
+/** clearTimeout/clearInterval replacements that record clears of tracked timers */
+const trackingClears = new WeakSet<AnyFunction>();
+
+/** Tracked timers that have not fired or been cleared, by timer id */
+const pendingTimers = new Map<unknown, TrackedResource>();
+
+const OBSERVER_SOURCES = ["ResizeObserver", "MutationObserver", "IntersectionObserver"] as const;
+
+/**
+ * Creates an empty resource tracker.
+ *
+ * @returns A new tracker
+ */
+export function createResourceTracker(): ResourceTracker {
+  return { resources: [] };
+}
+
+/**
+ * Reads the capture flag from addEventListener/removeEventListener options.
+ *
+ * @param options - The options argument
+ * @returns True for capture listeners
+ */
+function isCapture(options: boolean | EventListenerOptions | undefined): boolean {
+  return typeof options === "boolean" ? options : Boolean(options?.capture);
+}
+
+/**
+ * Finds the instrumented registration of a listener on a target.
+ *
+ * @param listener - The original listener
+ * @param target - The event target
+ * @param type - The event type
+ * @param capture - Whether the listener is a capture listener
+ * @returns The registration list and the index of the match (-1 if none)
+ */
+function findRegistration(
+  listener: AnyFunction,
+  target: EventTarget,
+  type: string,
+  capture: boolean
+): { registrations: ListenerRegistration[]; index: number } {
+  const registrations = listenerRegistrations.get(listener) ?? [];
+  const index = registrations.findIndex(
+    (registration) =>
+      registration.target === target &&
+      registration.type === type &&
+      registration.capture === capture
+  );
+  return { registrations, index };
+}
+
+/**
+ * Forgets an instrumented registration once its listener is gone, so adding
+ * the same listener again registers it again.
+ *
+ * @param listener - The original listener
+ * @param registration - The registration to forget
+ */
+function forgetRegistration(listener: AnyFunction, registration: ListenerRegistration): void {
+  const registrations = listenerRegistrations.get(listener);
+  const index = registrations ? registrations.indexOf(registration) : -1;
+  if (registrations && index !== -1) {
+    registrations.splice(index, 1);
+  }
+}
+
+/**
+ * Patches `removeEventListener` so removing an instrumented listener also
+ * removes the wrapper registered in its place. Installed once, the first
+ * time a listener is instrumented, and left in place: the wrapper can be
+ * removed at any time, not only while an effect or its cleanup runs.
+ */
+function installRemovalTranslation(): void {
+  if (removalTranslationInstalled || typeof EventTarget === "undefined") {
+    return;
+  }
+  removalTranslationInstalled = true;
+
+  const eventTarget = EventTarget.prototype;
+  const originalRemove = eventTarget.removeEventListener;
+
+  eventTarget.removeEventListener = function (
+    this: EventTarget,
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    listenerOptions?: boolean | EventListenerOptions
+  ) {
+    if (typeof listener === "function") {
+      const { registrations, index } = findRegistration(
+        listener as AnyFunction,
+        this,
+        type,
+        isCapture(listenerOptions)
+      );
+      if (index !== -1) {
+        const [registration] = registrations.splice(index, 1);
+        if (registration.resource) {
+          registration.resource.active = false;
+        }
+        originalRemove.call(this, type, registration.wrapped as EventListener, listenerOptions);
+      }
+    }
+    return originalRemove.call(this, type, listener, listenerOptions);
+  };
+}
+
+/**
+ * Patches `clearTimeout` and `clearInterval` so clears of tracked timers are
+ * recorded. Installed when a timer is tracked and left in place: timers can
+ * be cleared anywhere, not only in the effect cleanup. Installed again if
+ * something else replaced the functions since, such as fake timers in tests.
+ */
+function installClearTracking(): void {
+  const target = globalThis as unknown as Record<string, unknown>;
+  for (const name of ["clearTimeout", "clearInterval"]) {
+    const original = target[name];
+    if (typeof original !== "function" || trackingClears.has(original as AnyFunction)) {
+      continue;
+    }
+    const tracking = function (this: unknown, id: unknown) {
+      const resource = pendingTimers.get(id);
+      if (resource) {
+        resource.active = false;
+        pendingTimers.delete(id);
+      }
+      return original.call(this, id);
+    };
+    trackingClears.add(tracking);
+    target[name] = tracking;
+  }
+}
+
+/**
+ * Runs a function with the timer and listener APIs replaced, so every
+ * callback registered while it runs goes through the wrapper and every
+ * resource created is recorded in the tracker.
+ *
+ * @param fn - The function to run, typically an effect body
+ * @param options - The wrapper and tracker to use
+ * @returns The result of fn
+ */
+export function runInstrumented<T>(fn: () => T, options: InstrumentOptions): T {
+  const { wrap, tracker } = options;
+  const target = globalThis as unknown as Record<string, unknown>;
+  const eventTarget =
+    typeof EventTarget !== "undefined" ? EventTarget.prototype : undefined;
+
+  const originals: Record<string, unknown> = {
+    setTimeout: target.setTimeout,
+    setInterval: target.setInterval,
+    requestAnimationFrame: target.requestAnimationFrame,
+    ResizeObserver: target.ResizeObserver,
+    MutationObserver: target.MutationObserver,
+    IntersectionObserver: target.IntersectionObserver,
+    AbortController: target.AbortController,
+  };
+  const originalAdd = eventTarget?.addEventListener;
+
+  const track = (resource: TrackedResource): TrackedResource => {
+    tracker?.resources.push(resource);
+    return resource;
+  };
+
+  /**
+   * Wraps a callback so it marks one-shot resources as done when it fires.
+   */
+  const instrumentCallback = (
+    callback: AnyFunction,
+    registration: InstrumentedCallback,
+    settle: () => void
+  ): AnyFunction => {
+    const wrapped = wrap ? wrap(callback, registration) : callback;
+    return function (this: unknown, ...args: unknown[]) {
+      settle();
+      return wrapped.apply(this, args);
+    };
+  };
+
+  // Names replaced on globalThis; APIs missing in this environment stay missing
+  const patchedGlobals: string[] = [];
+
+  const patchTimer = (source: "setTimeout" | "setInterval" | "requestAnimationFrame") => {
+    const original = originals[source];
+    if (typeof original !== "function") {
+      return;
+    }
+    patchedGlobals.push(source);
+    target[source] = function (this: unknown, callback: unknown, ...rest: unknown[]) {
+      if (typeof callback !== "function") {
+        return original.call(this, callback, ...rest);
+      }
+
+      const resource =
+        tracker && source !== "requestAnimationFrame" ? track({ source, active: true }) : undefined;
+      let id: unknown;
+      const registered = instrumentCallback(callback as AnyFunction, { source }, () => {
+        if (resource && source === "setTimeout") {
+          resource.active = false;
+          pendingTimers.delete(id);
+        }
+      });
+
+      id = original.call(this, registered, ...rest);
+      if (resource) {
+        resource.timerId = id;
+        pendingTimers.set(id, resource);
+      }
+      return id;
+    };
+  };
+
+  if (tracker) {
+    installClearTracking();
+  }
+  patchTimer("setTimeout");
+  patchTimer("setInterval");
+  patchTimer("requestAnimationFrame");
+
+  if (eventTarget && originalAdd) {
+    installRemovalTranslation();
+    eventTarget.addEventListener = function (
+      this: EventTarget,
+      type: string,
+      listener: EventListenerOrEventListenerObject | null,
+      listenerOptions?: boolean | AddEventListenerOptions
+    ) {
+      if (typeof listener !== "function") {
+        return originalAdd.call(this, type, listener, listenerOptions);
+      }
+
+      // Adding the same listener twice is a no-op, so keep the first wrapper
+      const capture = isCapture(listenerOptions);
+      const existing = findRegistration(listener as AnyFunction, this, type, capture);
+      if (existing.index !== -1) {
+        return;
+      }
+
+      const once = typeof listenerOptions === "object" && Boolean(listenerOptions.once);
+      const signal = typeof listenerOptions === "object" ? listenerOptions.signal : undefined;
+      if (signal?.aborted) {
+        // The listener is never added, so there is nothing to track
+        return originalAdd.call(this, type, listener, listenerOptions);
+      }
+
+      const resource = tracker
+        ? track({ source: "addEventListener", eventType: type, active: true, signal })
+        : undefined;
+      const registration: ListenerRegistration = {
+        target: this,
+        type,
+        capture,
+        wrapped: listener as AnyFunction,
+        resource,
+      };
+      registration.wrapped = instrumentCallback(
+        listener as AnyFunction,
+        { source: "addEventListener", eventType: type },
+        () => {
+          if (once) {
+            forgetRegistration(listener as AnyFunction, registration);
+            if (resource) {
+              resource.active = false;
+            }
+          }
+        }
+      );
+      const { wrapped } = registration;
+
+      existing.registrations.push(registration);
+      listenerRegistrations.set(listener as AnyFunction, existing.registrations);
+
+      // Aborting the signal removes the listener without removeEventListener.
+      // Registered with the original API, so it is neither wrapped nor tracked.
+      if (signal) {
+        originalAdd.call(
+          signal,
+          "abort",
+          () => forgetRegistration(listener as AnyFunction, registration),
+          { once: true }
+        );
+      }
+
+      return originalAdd.call(this, type, wrapped as EventListener, listenerOptions);
+    };
+  }
+
+  if (tracker) {
+    for (const source of OBSERVER_SOURCES) {
+      const Original = originals[source];
+      if (typeof Original === "function") {
+        patchedGlobals.push(source);
+        target[source] = createTrackedObserver(
+          Original as ObserverConstructor,
+          source,
+          track
+        );
+      }
+    }
+
+    const OriginalAbortController = originals.AbortController;
+    if (typeof OriginalAbortController === "function") {
+      patchedGlobals.push("AbortController");
+      target.AbortController = createTrackedAbortController(
+        OriginalAbortController as typeof AbortController,
+        track
+      );
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    for (const name of patchedGlobals) {
+      target[name] = originals[name];
+    }
+    if (eventTarget && originalAdd) {
+      eventTarget.addEventListener = originalAdd;
+    }
+  }
+}
+
+/**
+ * The observer API shared by ResizeObserver, MutationObserver and
+ * IntersectionObserver.
+ */
+interface ObserverLike {
+  observe(target: unknown, options?: unknown): void;
+  unobserve?(target: unknown): void;
+  disconnect(): void;
+}
+
+type ObserverConstructor = new (...args: unknown[]) => ObserverLike;
+
+/**
+ * Creates a stand-in for an observer constructor whose instances are tracked
+ * while they observe at least one target.
+ *
+ * @param Original - The real constructor
+ * @param source - Name of the constructor
+ * @param track - Records the resource
+ * @returns A constructor producing tracked instances of Original
+ */
+function createTrackedObserver(
+  Original: ObserverConstructor,
+  source: ResourceSource,
+  track: (resource: TrackedResource) => TrackedResource
+): ObserverConstructor {
+  function TrackedObserver(...args: unknown[]): ObserverLike {
+    const observer = new Original(...args);
+    const resource = track({ source, active: false });
+    const targets = new Set<unknown>();
+    const { observe, unobserve, disconnect } = observer;
+
+    observer.observe = (observed, options) => {
+      targets.add(observed);
+      resource.active = true;
+      observe.call(observer, observed, options);
+    };
+    if (unobserve) {
+      observer.unobserve = (observed) => {
+        targets.delete(observed);
+        resource.active = targets.size > 0;
+        unobserve.call(observer, observed);
+      };
+    }
+    observer.disconnect = () => {
+      targets.clear();
+      resource.active = false;
+      disconnect.call(observer);
+    };
+
+    return observer;
+  }
+  TrackedObserver.prototype = Original.prototype;
+
+  return TrackedObserver as unknown as ObserverConstructor;
+}
+
+/**
+ * Creates a stand-in for AbortController whose instances are tracked until
+ * they are aborted.
+ *
+ * @param Original - The real constructor
+ * @param track - Records the resource
+ * @returns A constructor producing tracked AbortControllers
+ */
+function createTrackedAbortController(
+  Original: typeof AbortController,
+  track: (resource: TrackedResource) => TrackedResource
+): typeof AbortController {
+  function TrackedAbortController(): AbortController {
+    const controller = new Original();
+    track({ source: "AbortController", active: true, signal: controller.signal });
+    return controller;
+  }
+  TrackedAbortController.prototype = Original.prototype;
+
+  return TrackedAbortController as unknown as typeof AbortController;
+}
+
+/**
+ * Returns the tracked resources that are still live.
+ * Resources tied to a signal count as disposed once the signal is aborted.
+ *
+ * @param tracker - The tracker of an effect run
+ * @returns Resources that were not disposed
+ */
+export function findLeakedResources(tracker: ResourceTracker): TrackedResource[] {
+  return tracker.resources.filter((resource) => resource.active && !resource.signal?.aborted);
+}
+
+/**
+ * Stops following the timers of a tracker once its leak check is done, so
+ * timers that are never cleared do not pile up in the pending timer map.
+ *
+ * @param tracker - The tracker of an effect run
+ */
+export function releaseResourceTracker(tracker: ResourceTracker): void {
+  for (const resource of tracker.resources) {
+    if (resource.timerId !== undefined && pendingTimers.get(resource.timerId) === resource) {
+      pendingTimers.delete(resource.timerId);
+    }
+  }
+}
+
+/**
+ * Describes a tracked resource, for warning messages.
+ *
+ * @param resource - The resource
+ * @returns E.g. "setInterval timer" or '"resize" listener'
+ */
+function describeResource(resource: TrackedResource): string {
+  switch (resource.source) {
+    case "setTimeout":
+    case "setInterval":
+      return `${resource.source} timer`;
+    case "addEventListener":
+      return `"${resource.eventType}" listener`;
+    case "AbortController":
+      return "AbortController that was never aborted";
+    default:
+      return `${resource.source} still observing`;
+  }
+}
+
+/**
+ * Formats leaked resources as a list, counting repeated kinds.
+ *
+ * @param resources - The leaked resources
+ * @returns E.g. 'setInterval timer, "resize" listener (×2)'
+ */
+export function formatLeakedResources(resources: readonly TrackedResource[]): string {
+  const counts = new Map<string, number>();
+  for (const resource of resources) {
+    const description = describeResource(resource);
+    counts.set(description, (counts.get(description) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([description, count]) =>
+    count > 1 ? `${description} (×${count})` : description
+  ).join(", ");
+}
@@ -0,0 +1,188 @@
+/**
+ * Machine-readable report export.
+ *
+ * Serializes recorded warnings as NDJSON (one JSON object per line, for
+ * dashboards and log pipelines) or SARIF 2.1.0 (for code scanning tools such
+ * as GitHub code scanning).
+ */
+
+import { getSafeHookWarnings, type SafeHookWarningEntry } from "./history";
+import { WARNING_RULES, type WarningRule } from "./rules";
+import type { SafeHookWarning } from "./warn";
+
+/**
+ * Supported report formats.
+ */
+export type SafeHookReportFormat = "ndjson" | "sarif";
+
+/**
+ * Options for SARIF output.
+ */
+export interface SarifOptions {
+  /**
+   * Project root. File paths under it are written relative to it, which is
+   * what code scanning tools need to map results onto repository files.
+   */
+  rootDir?: string;
+}
+
+/** Name of the tool as it appears in SARIF reports */
+const TOOL_NAME = "react-safe-hooks";
+
+/** Project page linked from SARIF reports */
+const TOOL_URI = "https://github.com/princeofv/react-safe-hook";
+
+/**
+ * Serializes warnings as newline-delimited JSON, one warning per line.
+ *
+ * @param warnings - Warnings to serialize
+ * @returns The NDJSON text (ends with a newline unless empty)
+ */
+export function formatNDJSON(warnings: readonly SafeHookWarning[]): string {
+  return warnings.map((warning) => JSON.stringify(warning) + "\n").join("");
+}
+
+/**
+ * Converts a file reported in a stack trace into a SARIF artifact URI.
+ * Strips dev-server origins, bundler schemes and cache-busting queries,
+ * and makes paths under rootDir relative.
+ *
+ * @param file - File path or URL from the stack trace
+ * @param rootDir - Optional project root
+ * @returns The artifact URI
+ */
+function toArtifactUri(file: string, rootDir?: string): string {
+  let uri = file
+    .replace(/^webpack-internal:\/\/\/(?:\([^)]*\)\/)?/, "")
+    .replace(/^webpack:\/\/[^/]*\//, "")
+    .replace(/^https?:\/\/[^/]+\//, "")
+    .replace(/^file:\/\//, "")
+    .replace(/[?#].*$/, "");
+
+  if (rootDir) {
+    const root = rootDir.replace(/\\/g, "/").replace(/\/?$/, "/");
+    const normalized = uri.replace(/\\/g, "/");
+    if (normalized.startsWith(root)) {
+      uri = normalized.slice(root.length);
+    }
+  }
+
+  return uri.replace(/^\.\//, "");
+}
+
+/**
+ * Serializes warnings as a SARIF 2.1.0 log with one run.
+ *
+ * @param warnings - Warnings to serialize
+ * @param options - SARIF output options
+ * @returns The SARIF JSON text
+ */
+export function formatSARIF(
+  warnings: readonly SafeHookWarning[],
+  options: SarifOptions = {}
+): string {
+  const ruleIds = Object.keys(WARNING_RULES) as WarningRule[];
+
+  const rules = ruleIds.map((rule) => ({
+    id: WARNING_RULES[rule].code,
+    name: rule,
+    shortDescription: { text: WARNING_RULES[rule].description },
+    defaultConfiguration: { level: toSarifLevel(WARNING_RULES[rule].severity) },
+  }));
+
+  const results = warnings.map((warning) => {
+    const entry = warning as Partial<SafeHookWarningEntry>;
+
+    return {
+      ruleId: warning.code,
+      ruleIndex: ruleIds.indexOf(warning.rule),
+      level: toSarifLevel(warning.severity),
+      message: {
+        text: [warning.message, warning.details].filter(Boolean).join(" "),
+      },
+      locations: [
+        {
+          ...(warning.location && {
+            physicalLocation: {
+              artifactLocation: {
+                uri: toArtifactUri(warning.location.file, options.rootDir),
+              },
+              region: {
+                startLine: warning.location.line,
+                startColumn: warning.location.column,
+              },
+            },
+          }),
+          logicalLocations: [
+            {
+              name: warning.hookName,
+              fullyQualifiedName: `${warning.componentName}.${warning.hookName}`,
+              kind: "function",
+            },
+          ],
+        },
+      ],
+      partialFingerprints: {
+        safeHookWarning: `${warning.componentName}:${warning.hookName}:${warning.rule}`,
+      },
+      properties: {
+        rule: warning.rule,
+        componentName: warning.componentName,
+        componentPath: warning.ancestry?.path.join(" > "),
+        componentKey: warning.ancestry?.key,
+        hookName: warning.hookName,
+        fix: warning.fix,
+        count: entry.count,
+        firstSeen: entry.firstSeen,
+        lastSeen: entry.lastSeen,
+      },
+    };
+  });
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules },
+        },
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+/**
+ * Maps a warning severity to a SARIF result level.
+ *
+ * @param severity - The warning severity
+ * @returns The SARIF level
+ */
+function toSarifLevel(severity: SafeHookWarning["severity"]): "warning" | "error" {
+  return severity === "error" ? "error" : "warning";
+}
+
+/**
+ * Creates a machine-readable report of safe-hook warnings.
+ *
+ * @param format - "ndjson" or "sarif"
+ * @param warnings - Warnings to include (defaults to the session history)
+ * @param options - SARIF output options
+ * @returns The report text
+ *
+ * @example
+ * ```ts
+ * const sarif = createSafeHookReport("sarif");
+ * const ndjson = createSafeHookReport("ndjson", capturedWarnings);
+ * ```
+ */
+export function createSafeHookReport(
+  format: SafeHookReportFormat,
+  warnings: readonly SafeHookWarning[] = getSafeHookWarnings(),
+  options?: SarifOptions
+): string {
+  return format === "sarif" ? formatSARIF(warnings, options) : formatNDJSON(warnings);
+}
@@ -0,0 +1,87 @@
+/**
+ * Warning reporters for react-safe-hooks.
+ *
+ * A reporter is a sink that receives every warning emitted by the safe hooks.
+ * The console reporter is registered by default; applications can replace it
+ * or add their own to route warnings into a logger, test collector or UI.
+ */
+
+import type { SafeHookWarning } from "./warn";
+import { createWarning } from "./format";
+
+/**
+ * A sink that receives structured warnings from the safe hooks.
+ */
+export type SafeHooksReporter = (warning: SafeHookWarning) => void;
+
+/**
+ * Default reporter that prints formatted warnings with `console.warn`,
+ * or `console.error` for warnings with error severity.
+ *
+ * @param warning - The warning to print
+ */
+export const consoleReporter: SafeHooksReporter = (warning) => {
+  if (warning.severity === "error") {
+    console.error(createWarning(warning));
+  } else {
+    console.warn(createWarning(warning));
+  }
+};
+
+/** Currently registered reporters, in registration order */
+let reporters: SafeHooksReporter[] = [consoleReporter];
+
+/**
+ * Returns the currently registered reporters.
+ *
+ * @returns The registered reporters
+ */
+export function getReporters(): readonly SafeHooksReporter[] {
+  return reporters;
+}
+
+/**
+ * Replaces all registered reporters.
+ *
+ * @param next - The reporters to register
+ */
+export function setReporters(next: readonly SafeHooksReporter[]): void {
+  reporters = [...next];
+}
+
+/**
+ * Registers an additional reporter alongside the existing ones.
+ *
+ * @param reporter - The reporter to add
+ * @returns A function that unregisters the reporter
+ *
+ * @example
+ * ```ts
+ * const remove = addSafeHooksReporter((warning) => {
+ *   logger.warn(warning.message, warning);
+ * });
+ * ```
+ */
+export function addSafeHooksReporter(reporter: SafeHooksReporter): () => void {
+  reporters = [...reporters, reporter];
+
+  return () => {
+    reporters = reporters.filter((registered) => registered !== reporter);
+  };
+}
+
+/**
+ * Hands a warning to every registered reporter.
+ * A reporter that throws does not prevent the others from receiving the warning.
+ *
+ * @param warning - The warning to report
+ */
+export function report(warning: SafeHookWarning): void {
+  for (const reporter of reporters) {
+    try {
+      reporter(warning);
+    } catch (error) {
+      console.error("react-safe-hooks: a warning reporter threw an error.", error);
+    }
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Warning rule definitions.
+ *
+ * Every check performed by the safe hooks belongs to a rule. Each rule has a
+ * stable, documented code that can be used to filter, count or link to
+ * documentation without matching on the message text.
+ */
+
+/**
+ * Identifier of a check performed by the safe hooks.
+ */
+export type WarningRule =
+  | "no-deps"
+  | "stale-effect-callback"
+  | "effect-leak"
+  | "effect-loop"
+  | "invalid-effect-return"
+  | "async-effect-rejection"
+  | "async-result-after-unmount"
+  | "async-out-of-order"
+  | "event-callback-in-render"
+  | "deps-length"
+  | "unstable-deps"
+  | "inline-function-deps"
+  | "deps-kind-change"
+  | "volatile-deps"
+  | "stale-closure"
+  | "excessive-changes"
+  | "stale-invocation"
+  | "excessive-recompute"
+  | "unmounted-update"
+  | "unmounted-dispatch"
+  | "missing-provider"
+  | "null-init";
+
+/**
+ * How serious a reported warning is.
+ */
+export type WarningSeverity = "warn" | "error";
+
+/**
+ * What happens when a rule detects an issue.
+ *
+ * - `off`: the issue is ignored
+ * - `warn`: reported with severity "warn"
+ * - `error`: reported with severity "error"
+ * - `throw`: reported with severity "error", then thrown as a SafeHooksError.
+ *   Warnings detected in promise callbacks are only reported, since an error
+ *   thrown there would become an unhandled rejection
+ */
+export type RuleLevel = "off" | WarningSeverity | "throw";
+
+/**
+ * A table of rule levels. Rules that are not listed keep their default.
+ */
+export type SafeHooksRules = Partial<Record<WarningRule, RuleLevel>>;
+
+/**
+ * Static description of a warning rule.
+ */
+export interface WarningRuleDefinition {
+  /** Stable code, e.g. `RSH-EFFECT-001`. Codes are never reused. */
+  code: string;
+  /** Level used when the rule is not configured otherwise */
+  severity: WarningSeverity;
+  /** One-line summary of what the rule detects */
+  description: string;
+}
+
+/**
+ * All warning rules, keyed by rule identifier.
+ */
+export const WARNING_RULES: Readonly<Record<WarningRule, WarningRuleDefinition>> = {
+  "no-deps": {
+    code: "RSH-EFFECT-001",
+    severity: "warn",
+    description: "Effect has no dependency array and runs after every render.",
+  },
+  "stale-effect-callback": {
+    code: "RSH-EFFECT-002",
+    severity: "warn",
+    description: "Timer or listener registered by an effect fired with outdated values.",
+  },
+  "effect-leak": {
+    code: "RSH-EFFECT-003",
+    severity: "warn",
+    description: "Effect created resources that its cleanup did not dispose of.",
+  },
+  "effect-loop": {
+    code: "RSH-EFFECT-004",
+    severity: "warn",
+    description: "Effect re-runs in a loop, usually by changing its own dependencies.",
+  },
+  "invalid-effect-return": {
+    code: "RSH-EFFECT-005",
+    severity: "warn",
+    description: "Effect returned something other than a cleanup function or undefined.",
+  },
+  "async-effect-rejection": {
+    code: "RSH-ASYNC-001",
+    severity: "error",
+    description: "Async effect rejected and the error was not handled.",
+  },
+  "async-result-after-unmount": {
+    code: "RSH-ASYNC-002",
+    severity: "warn",
+    description: "Async call resolved after unmount although its signal was aborted.",
+  },
+  "async-out-of-order": {
+    code: "RSH-ASYNC-003",
+    severity: "warn",
+    description: "Async call resolved after a newer call; its result was discarded.",
+  },
+  "event-callback-in-render": {
+    code: "RSH-EVENT-001",
+    severity: "warn",
+    description: "Stable event callback was called during render.",
+  },
+  "deps-length": {
+    code: "RSH-DEPS-001",
+    severity: "warn",
+    description: "Dependency array length changed between renders.",
+  },
+  "unstable-deps": {
+    code: "RSH-DEPS-002",
+    severity: "warn",
+    description: "Dependency is recreated on every render with the same content.",
+  },
+  "inline-function-deps": {
+    code: "RSH-DEPS-003",
+    severity: "warn",
+    description: "Inline function in the dependency array is recreated on every render.",
+  },
+  "deps-kind-change": {
+    code: "RSH-DEPS-004",
+    severity: "warn",
+    description: "Dependency keeps changing type between renders.",
+  },
+  "volatile-deps": {
+    code: "RSH-DEPS-005",
+    severity: "warn",
+    description: "Dependency holds a value generated on every render.",
+  },
+  "stale-closure": {
+    code: "RSH-CALLBACK-001",
+    severity: "warn",
+    description: "Dependencies changed but the memoized callback was not updated.",
+  },
+  "excessive-changes": {
+    code: "RSH-CALLBACK-002",
+    severity: "warn",
+    description: "Memoized callback identity changes too frequently.",
+  },
+  "stale-invocation": {
+    code: "RSH-CALLBACK-003",
+    severity: "warn",
+    description: "Callback from an earlier render was called with outdated values.",
+  },
+  "excessive-recompute": {
+    code: "RSH-MEMO-001",
+    severity: "warn",
+    description: "Memoized value is recomputed on every render.",
+  },
+  "unmounted-update": {
+    code: "RSH-STATE-001",
+    severity: "warn",
+    description: "State update attempted after the component unmounted.",
+  },
+  "unmounted-dispatch": {
+    code: "RSH-REDUCER-001",
+    severity: "warn",
+    description: "Reducer dispatch attempted after the component unmounted.",
+  },
+  "missing-provider": {
+    code: "RSH-CONTEXT-001",
+    severity: "warn",
+    description: "Context value is undefined, usually because the Provider is missing.",
+  },
+  "null-init": {
+    code: "RSH-REF-001",
+    severity: "warn",
+    description: "Ref initialized with null or undefined.",
+  },
+};
+
+/** Globally configured rule levels */
+let globalRules: SafeHooksRules = {};
+
+/**
+ * Replaces the globally configured rule levels.
+ *
+ * @param rules - The rule levels to apply
+ */
+export function setGlobalRules(rules: SafeHooksRules): void {
+  globalRules = { ...rules };
+}
+
+/**
+ * Returns the globally configured rule levels.
+ *
+ * @returns The configured rule levels
+ */
+export function getGlobalRules(): SafeHooksRules {
+  return globalRules;
+}
+
+/**
+ * Resolves the level of a rule. Per-call overrides take precedence over the
+ * global table, which takes precedence over the rule's default severity.
+ *
+ * @param rule - The rule to resolve
+ * @param overrides - Per-call rule levels
+ * @returns The effective level
+ */
+export function resolveRuleLevel(
+  rule: WarningRule,
+  overrides?: SafeHooksRules
+): RuleLevel {
+  return overrides?.[rule] ?? globalRules[rule] ?? WARNING_RULES[rule].severity;
+}
@@ -0,0 +1,120 @@
+/**
+ * Subtree-scoped configuration.
+ *
+ * SafeHooksProvider publishes a scope through React context. Every safe hook
+ * reads the nearest scope and combines it with the global configuration and
+ * its own per-call options.
+ */
+
+import { createContext, useContext } from "react";
+import { WARNING_RULES, type SafeHooksRules, type WarningRule } from "./rules";
+import { shallowEqual } from "./depsTracker";
+import {
+  getGlobalThresholds,
+  type SafeHooksThresholds,
+} from "./thresholds";
+
+/**
+ * Configuration accepted by SafeHooksProvider.
+ */
+export interface SafeHooksScopeConfig {
+  /**
+   * Set to false to silence every rule in this subtree.
+   * A nested provider can turn checks back on.
+   * @default true
+   */
+  enabled?: boolean;
+
+  /** Rule levels for this subtree, merged over the parent scope */
+  rules?: SafeHooksRules;
+
+  /** Thresholds for this subtree, merged over the parent scope */
+  thresholds?: SafeHooksThresholds;
+}
+
+/**
+ * Scope configuration after merging all enclosing providers.
+ */
+export interface SafeHooksScope {
+  /** Whether checks are enabled in this subtree */
+  enabled: boolean;
+  /** Rule levels set by the enclosing providers */
+  rules: SafeHooksRules;
+  /** Thresholds set by the enclosing providers */
+  thresholds: SafeHooksThresholds;
+}
+
+/**
+ * Settings a safe hook uses for a single render.
+ */
+export interface ResolvedSafeHooksScope {
+  /** Rule levels to pass with every warning (scope merged with per-call) */
+  rules: SafeHooksRules;
+  /** Effective thresholds (global merged with scope) */
+  thresholds: Readonly<Required<SafeHooksThresholds>>;
+}
+
+/** The scope used outside of any provider */
+const ROOT_SCOPE: SafeHooksScope = { enabled: true, rules: {}, thresholds: {} };
+
+/** Every rule turned off, used for disabled subtrees */
+const ALL_RULES_OFF = Object.fromEntries(
+  (Object.keys(WARNING_RULES) as WarningRule[]).map((rule) => [rule, "off"])
+) as SafeHooksRules;
+
+/**
+ * React context holding the nearest scope.
+ */
+export const SafeHooksScopeContext = createContext<SafeHooksScope>(ROOT_SCOPE);
+SafeHooksScopeContext.displayName = "SafeHooksScope";
+
+/**
+ * Merges a provider's configuration over its parent scope.
+ *
+ * @param parent - The enclosing scope
+ * @param config - The provider's configuration
+ * @returns The merged scope
+ */
+export function mergeScope(
+  parent: SafeHooksScope,
+  config: SafeHooksScopeConfig
+): SafeHooksScope {
+  return {
+    enabled: config.enabled ?? parent.enabled,
+    rules: { ...parent.rules, ...config.rules },
+    thresholds: { ...parent.thresholds, ...config.thresholds },
+  };
+}
+
+/**
+ * Checks whether two scopes hold the same settings.
+ *
+ * @param a - First scope
+ * @param b - Second scope
+ * @returns True if the enabled flag, rule levels and thresholds are equal
+ */
+export function isSameScope(a: SafeHooksScope, b: SafeHooksScope): boolean {
+  return (
+    a.enabled === b.enabled &&
+    shallowEqual(a.rules, b.rules) &&
+    shallowEqual(a.thresholds, b.thresholds)
+  );
+}
+
+/**
+ * Reads the nearest scope and resolves the settings for one hook call.
+ *
+ * @param overrides - Per-call rule levels, which take precedence over the scope
+ * @returns Rule levels and thresholds for this hook call
+ */
+export function useSafeHooksScope(
+  overrides?: SafeHooksRules
+): ResolvedSafeHooksScope {
+  const scope = useContext(SafeHooksScopeContext);
+  const scopeRules = scope.enabled ? scope.rules : ALL_RULES_OFF;
+
+  return {
+    rules: overrides ? { ...scopeRules, ...overrides } : scopeRules,
+    thresholds: { ...getGlobalThresholds(), ...scope.thresholds },
+  };
+}
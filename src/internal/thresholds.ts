@@ -0,0 +1,69 @@
+/**
+ * Numeric thresholds used by the safe hook heuristics.
+ *
+ * Defaults can be changed globally with configureSafeHooks and per subtree
+ * with SafeHooksProvider.
+ */
+
+/**
+ * Tunable thresholds for the safe hook heuristics.
+ */
+export interface SafeHooksThresholds {
+  /**
+   * Recomputations after which useSafeMemo warns when the factory runs on
+   * every render.
+   * @default 10
+   */
+  recompute?: number;
+
+  /**
+   * Identity changes after which useSafeCallback considers a callback unstable.
+   * @default 5
+   */
+  callbackChanges?: number;
+
+  /**
+   * Runs of one effect within `effectRunWindowMs` after which useSafeEffect
+   * and useSafeLayoutEffect report a feedback loop.
+   * @default 20
+   */
+  effectRuns?: number;
+
+  /**
+   * Length of the sliding window for `effectRuns`, in milliseconds.
+   * @default 1000
+   */
+  effectRunWindowMs?: number;
+}
+
+/**
+ * Thresholds used when nothing else is configured.
+ */
+export const DEFAULT_THRESHOLDS: Readonly<Required<SafeHooksThresholds>> = {
+  recompute: 10,
+  callbackChanges: 5,
+  effectRuns: 20,
+  effectRunWindowMs: 1000,
+};
+
+/** Globally configured thresholds */
+let globalThresholds: Required<SafeHooksThresholds> = { ...DEFAULT_THRESHOLDS };
+
+/**
+ * Updates the globally configured thresholds.
+ * Omitted keys fall back to their default.
+ *
+ * @param thresholds - The thresholds to apply
+ */
+export function setGlobalThresholds(thresholds: SafeHooksThresholds): void {
+  globalThresholds = { ...DEFAULT_THRESHOLDS, ...thresholds };
+}
+
+/**
+ * Returns the globally configured thresholds.
+ *
+ * @returns The configured thresholds
+ */
+export function getGlobalThresholds(): Readonly<Required<SafeHooksThresholds>> {
+  return globalThresholds;
+}
@@ -2,17 +2,41 @@
  * Warning system for react-safe-hooks.
  *
  * Provides formatted, deduplicated warnings with consistent styling
- * and actionable fix suggestions.
+ * and actionable fix suggestions. Warnings are handed to the registered
+ * reporters (see reporter.ts), which print to the console by default.
  */
 
 import { __DEV__ } from "./devOnly";
+import { report } from "./reporter";
+import { clearHistory, recordWarning } from "./history";
+import type { ComponentAncestry, SourceLocation } from "./componentName";
+import {
+  aggregateWarning,
+  discardAggregatedWarnings,
+  isAggregationEnabled,
+} from "./aggregate";
+import {
+  WARNING_RULES,
+  resolveRuleLevel,
+  type RuleLevel,
+  type SafeHooksRules,
+  type WarningRule,
+  type WarningSeverity,
+} from "./rules";
+import { createWarning } from "./format";
 
 /**
  * Configuration for a warning message.
  */
 export interface WarningConfig {
+  /** Rule that detected the issue */
+  rule: WarningRule;
   /** Name of the component where the warning occurred */
   componentName?: string;
+  /** Parent components and React key of the component instance */
+  ancestry?: ComponentAncestry;
+  /** Where the hook was called from */
+  location?: SourceLocation;
   /** Name of the hook that triggered the warning */
   hookName: string;
   /** Main warning message */
@@ -21,111 +45,226 @@ export interface WarningConfig {
   fix?: string;
   /** Additional context or details */
   details?: string;
+  /** Per-call rule levels that override the global configuration */
+  rules?: SafeHooksRules;
+  /**
+   * Set for warnings reported from promise callbacks. A thrown error would
+   * only become an unhandled rejection there, so the "throw" level reports
+   * the warning as an error without throwing.
+   */
+  async?: boolean;
 }
 
-/** Set to track which warnings have already been shown */
-const warnedKeys = new Set<string>();
+/**
+ * A structured warning as handed to reporters.
+ */
+export interface SafeHookWarning {
+  /** Stable code of the rule, e.g. `RSH-EFFECT-001` */
+  code: string;
+  /** Rule that detected the issue */
+  rule: WarningRule;
+  /** How serious the issue is */
+  severity: WarningSeverity;
+  /** Name of the component where the warning occurred */
+  componentName: string;
+  /** Parent components and React key of the component instance, when available */
+  ancestry?: ComponentAncestry;
+  /** Where the hook was called from, when it could be detected */
+  location?: SourceLocation;
+  /** Name of the hook that triggered the warning */
+  hookName: string;
+  /** Main warning message */
+  message: string;
+  /** Suggested fix for the issue */
+  fix?: string;
+  /** Additional context or details */
+  details?: string;
+  /** Present when repeated occurrences were aggregated into this report */
+  occurrences?: WarningOccurrences;
+}
 
 /**
- * Creates a formatted warning message following the react-safe-hooks style.
- *
- * @param config - Warning configuration
- * @returns Formatted warning string
- *
- * @example
- * ```
- * ⚠️ react-safe-hooks warning:
- *
- * Component: UserProfile
- * Hook: useSafeEffect
- *
- * Dependency array length changed between renders.
- * This may cause unexpected behavior.
- *
- * Fix:
- * Ensure your dependency array has a stable length.
- * ```
+ * Repeated occurrences collapsed into one aggregated report.
  */
-export function createWarning(config: WarningConfig): string {
-  const lines: string[] = [
-    "⚠️ react-safe-hooks warning:",
-    "",
-  ];
-
-  if (config.componentName) {
-    lines.push(`Component: ${config.componentName}`);
-  }
-  lines.push(`Hook: ${config.hookName}`);
-  lines.push("");
-  lines.push(config.message);
+export interface WarningOccurrences {
+  /** Number of occurrences in the aggregation window */
+  count: number;
+  /** Timestamp (ms since epoch) of the first occurrence */
+  firstSeen: number;
+  /** Timestamp (ms since epoch) of the last occurrence */
+  lastSeen: number;
+}
 
-  if (config.details) {
-    lines.push(config.details);
-  }
+/**
+ * Error thrown when a rule configured with the "throw" level detects an issue.
+ */
+export class SafeHooksError extends Error {
+  /** Stable code of the rule that detected the issue */
+  readonly code: string;
+  /** The warning that caused the error */
+  readonly warning: SafeHookWarning;
 
-  if (config.fix) {
-    lines.push("");
-    lines.push("Fix:");
-    lines.push(config.fix);
+  constructor(warning: SafeHookWarning) {
+    super(createWarning(warning));
+    this.name = "SafeHooksError";
+    this.code = warning.code;
+    this.warning = warning;
   }
+}
 
-  return lines.join("\n");
+/** Set to track which warnings have already been shown */
+const warnedKeys = new Set<string>();
+
+/**
+ * Converts a warning configuration into the structured warning
+ * handed to reporters.
+ *
+ * @param config - Warning configuration
+ * @param level - Resolved level of the rule (defaults to the configured level)
+ * @returns The structured warning
+ */
+export function createSafeHookWarning(
+  config: WarningConfig,
+  level: RuleLevel = resolveRuleLevel(config.rule, config.rules)
+): SafeHookWarning {
+  return {
+    code: WARNING_RULES[config.rule].code,
+    rule: config.rule,
+    severity: level === "warn" ? "warn" : "error",
+    componentName: config.componentName || "Unknown",
+    ancestry: config.ancestry,
+    location: config.location,
+    hookName: config.hookName,
+    message: config.message,
+    fix: config.fix,
+    details: config.details,
+  };
 }
 
 /**
- * Logs a warning to the console, but only once per unique key.
- * Useful to prevent spamming the console with repeated warnings.
+ * Reports a warning, but only once per unique key.
+ * Useful to prevent spamming the reporters with repeated warnings.
+ * Rules set to "off" are ignored; rules set to "throw" throw on every
+ * occurrence, even when the report itself is deduplicated, except for
+ * warnings from promise callbacks (see WarningConfig.async). When aggregation
+ * is enabled, the warning is reported once per aggregation window instead.
  *
- * @param key - Unique identifier for this warning (e.g., component + hook + issue)
- * @param message - Warning message to display
+ * @param key - Unique identifier for this warning (e.g., component + hook + issue).
+ *   The hook call site and component instance are appended when known.
+ * @param config - Warning to report
  *
  * @example
  * ```ts
- * warnOnce("UserProfile:useSafeEffect:deps-length", warningMessage);
+ * warnOnce("UserProfile:useSafeEffect:deps-length", {
+ *   rule: "deps-length",
+ *   componentName: "UserProfile",
+ *   hookName: "useSafeEffect",
+ *   message: "Dependency array length changed between renders.",
+ * });
  * ```
  */
-export function warnOnce(key: string, message: string): void {
+export function warnOnce(key: string, config: WarningConfig): void {
   if (!__DEV__) return;
 
-  if (warnedKeys.has(key)) {
-    return;
+  const level = resolveRuleLevel(config.rule, config.rules);
+  if (level === "off") return;
+
+  key = qualifyWarningKey(key, config);
+  const warning = createSafeHookWarning(config, level);
+  recordWarning(key, warning);
+
+  if (isAggregationEnabled()) {
+    aggregateWarning(key, warning);
+  } else if (!warnedKeys.has(key)) {
+    warnedKeys.add(key);
+    report(warning);
   }
 
-  warnedKeys.add(key);
-  console.warn(message);
+  if (level === "throw" && !config.async) {
+    throw new SafeHooksError(warning);
+  }
 }
 
 /**
- * Logs a warning to the console immediately.
+ * Reports a warning to every registered reporter immediately.
  * Use this for warnings that should be shown every time they occur.
+ * Rules set to "off" are ignored; rules set to "throw" throw after reporting,
+ * except for warnings from promise callbacks (see WarningConfig.async).
+ * When aggregation is enabled, bursts are collapsed into one report per window.
  *
- * @param message - Warning message to display
+ * @param config - Warning to report
  */
-export function warn(message: string): void {
+export function warn(config: WarningConfig): void {
   if (!__DEV__) return;
-  console.warn(message);
+
+  const level = resolveRuleLevel(config.rule, config.rules);
+  if (level === "off") return;
+
+  const key = qualifyWarningKey(
+    createWarningKey(config.hookName, config.rule, config.componentName),
+    config
+  );
+  const warning = createSafeHookWarning(config, level);
+  recordWarning(key, warning);
+
+  if (isAggregationEnabled()) {
+    aggregateWarning(key, warning);
+  } else {
+    report(warning);
+  }
+
+  if (level === "throw" && !config.async) {
+    throw new SafeHooksError(warning);
+  }
 }
 
 /**
  * Creates a unique key for deduplication based on warning context.
  *
  * @param hookName - Name of the hook
- * @param issueType - Type of issue being warned about
+ * @param issueType - Rule being warned about
  * @param componentName - Optional component name
  * @returns Unique key string
  */
 export function createWarningKey(
   hookName: string,
-  issueType: string,
+  issueType: WarningRule,
   componentName?: string
 ): string {
   return `${componentName || "Unknown"}:${hookName}:${issueType}`;
 }
 
 /**
- * Clears all tracked warnings.
+ * Adds the call site of the hook and the component instance to a warning
+ * key, so several calls of the same hook in one component, and several
+ * instances of one component, are deduplicated and recorded separately.
+ *
+ * @param key - Key from createWarningKey
+ * @param config - The warning
+ * @returns The key, followed by the call site and the component path and
+ *   React key when they are known
+ */
+function qualifyWarningKey(key: string, config: WarningConfig): string {
+  const { location, ancestry } = config;
+  if (location) {
+    key += `@${location.file}:${location.line}:${location.column}`;
+  }
+  if (ancestry) {
+    key += `#${ancestry.path.join(">")}`;
+    if (ancestry.key !== undefined) {
+      key += `[${ancestry.key}]`;
+    }
+  }
+  return key;
+}
+
+/**
+ * Clears all tracked warnings: the history and the record of which
+ * warnings were already shown, so deduplicated warnings are reported again.
  * Useful for testing or resetting state.
  */
 export function clearWarnings(): void {
   warnedKeys.clear();
+  clearHistory();
+  discardAggregatedWarnings();
 }
@@ -0,0 +1,127 @@
+/**
+ * Warning capture helpers for tests.
+ */
+
+import {
+  setReporters,
+  getReporters,
+  subscribeToSafeHookWarnings,
+  type SafeHookWarningEntry,
+} from "../internal";
+
+/**
+ * Options for captureSafeHookWarnings.
+ */
+export interface CaptureOptions {
+  /**
+   * Whether to mute the registered reporters while capturing,
+   * so expected warnings don't clutter the test output.
+   * @default false
+   */
+  silent?: boolean;
+}
+
+/**
+ * Warnings captured while running a block, plus the block's return value.
+ */
+export interface CapturedSafeHookWarnings<T = unknown> {
+  /** One entry per distinct warning, in order of first occurrence */
+  warnings: SafeHookWarningEntry[];
+  /** Value returned by the captured block */
+  result: T;
+}
+
+/**
+ * Runs a block and collects every safe-hook warning recorded while it runs.
+ * Works with synchronous blocks and with blocks returning a promise, such as
+ * `render(...)` or `act(async () => ...)`. When the block returns a promise
+ * the capture is a promise too and must be awaited. Blocks returning the
+ * result of `act()` always do in React 18, even for a synchronous callback.
+ *
+ * @param fn - The block to run
+ * @param options - Capture options
+ * @returns The captured warnings and the block's result
+ *
+ * @example
+ * ```tsx
+ * const captured = captureSafeHookWarnings(() => render(<Profile />));
+ * expect(captured).toHaveNoSafeHookWarnings();
+ *
+ * // act() returns a thenable, so await the capture
+ * const updated = await captureSafeHookWarnings(() =>
+ *   act(async () => { await user.click(button); })
+ * );
+ * expect(updated).toHaveSafeHookWarning("unmounted-update");
+ * ```
+ */
+export function captureSafeHookWarnings<T>(
+  fn: () => Promise<T>,
+  options?: CaptureOptions
+): Promise<CapturedSafeHookWarnings<T>>;
+
+export function captureSafeHookWarnings<T>(
+  fn: () => T,
+  options?: CaptureOptions
+): CapturedSafeHookWarnings<T>;
+
+export function captureSafeHookWarnings<T>(
+  fn: () => T | Promise<T>,
+  options?: CaptureOptions
+): CapturedSafeHookWarnings<T> | Promise<CapturedSafeHookWarnings<T>> {
+  const captured = new Map<string, SafeHookWarningEntry>();
+  const unsubscribe = subscribeToSafeHookWarnings((entry) => {
+    if (entry) {
+      captured.set(entry.key, entry);
+    }
+  });
+
+  const previousReporters = getReporters();
+  if (options?.silent) {
+    setReporters([]);
+  }
+
+  const stop = () => {
+    unsubscribe();
+    if (options?.silent) {
+      setReporters(previousReporters);
+    }
+  };
+
+  let result: T | Promise<T>;
+  try {
+    result = fn();
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  if (isPromiseLike(result)) {
+    return Promise.resolve(result).then(
+      (value) => {
+        stop();
+        return { warnings: Array.from(captured.values()), result: value };
+      },
+      (error: unknown) => {
+        stop();
+        throw error;
+      }
+    );
+  }
+
+  stop();
+  return { warnings: Array.from(captured.values()), result };
+}
+
+/**
+ * Checks whether a value is a promise or thenable.
+ *
+ * @param value - The value to check
+ * @returns True if the value has a `then` method
+ */
+function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
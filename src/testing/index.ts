@@ -0,0 +1,88 @@
+/**
+ * react-safe-hooks/testing
+ *
+ * Helpers for asserting on hook hygiene in component tests: capture the
+ * warnings reported during a render or act() block, Jest/Vitest matchers,
+ * and automatic reset between tests.
+ *
+ * @packageDocumentation
+ */
+
+import { clearWarnings } from "../internal";
+import { safeHookMatchers } from "./matchers";
+import { collectRunWarnings } from "./report";
+
+export {
+  captureSafeHookWarnings,
+  type CaptureOptions,
+  type CapturedSafeHookWarnings,
+} from "./capture";
+
+export {
+  safeHookMatchers,
+  type SafeHookMatchers,
+  type SafeHookWarningsInput,
+  type MatcherResult,
+} from "./matchers";
+
+export { writeSafeHookReport, type WriteReportOptions } from "./report";
+
+export { clearWarnings as resetSafeHookWarnings } from "../internal";
+
+/**
+ * Options for setupSafeHookTesting.
+ * The test runner functions default to the globals Jest and Vitest
+ * (with `globals: true`) provide.
+ */
+export interface SafeHookTestingOptions {
+  /** The runner's expect, used to register the matchers */
+  expect?: { extend(matchers: Record<string, unknown>): void };
+  /** The runner's beforeEach, used to reset warnings between tests */
+  beforeEach?: (fn: () => void) => void;
+  /**
+   * Whether to reset the warning history before each test.
+   * @default true
+   */
+  resetBetweenTests?: boolean;
+}
+
+/**
+ * Registers the matchers and resets warnings before each test.
+ * Call it once from your test setup file. Warnings are also kept for the
+ * whole test file, so writeSafeHookReport reports every test, not only the
+ * last one.
+ *
+ * @param options - Runner functions and behavior options
+ *
+ * @example
+ * ```ts
+ * // jest.setup.ts
+ * import { setupSafeHookTesting } from "react-safe-hooks/testing";
+ * setupSafeHookTesting();
+ *
+ * // vitest.setup.ts (without globals)
+ * import { expect, beforeEach } from "vitest";
+ * setupSafeHookTesting({ expect, beforeEach });
+ * ```
+ */
+export function setupSafeHookTesting(options: SafeHookTestingOptions = {}): void {
+  const globals = globalThis as SafeHookTestingOptions;
+  const expect = options.expect ?? globals.expect;
+  const beforeEach = options.beforeEach ?? globals.beforeEach;
+
+  if (!expect) {
+    throw new Error(
+      "react-safe-hooks/testing: no expect() found. Pass it explicitly: " +
+        "setupSafeHookTesting({ expect, beforeEach })."
+    );
+  }
+
+  expect.extend(safeHookMatchers);
+  collectRunWarnings();
+
+  if (options.resetBetweenTests !== false && beforeEach) {
+    beforeEach(() => {
+      clearWarnings();
+    });
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Jest/Vitest matchers for safe-hook warnings.
+ */
+
+import {
+  getSafeHookWarnings,
+  formatDependencyValue,
+  type SafeHookWarning,
+  type WarningRule,
+} from "../internal";
+import type { CapturedSafeHookWarnings } from "./capture";
+
+/**
+ * Values the matchers accept: a capture result, a list of warnings, or
+ * undefined to check the whole session history.
+ */
+export type SafeHookWarningsInput =
+  | CapturedSafeHookWarnings
+  | readonly SafeHookWarning[]
+  | undefined;
+
+/**
+ * Result shape shared by Jest and Vitest custom matchers.
+ */
+export interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Matcher signatures, for augmenting your test runner's types.
+ *
+ * @example
+ * ```ts
+ * // vitest.d.ts
+ * import type { SafeHookMatchers } from "react-safe-hooks/testing";
+ * declare module "vitest" {
+ *   interface Assertion<T> extends SafeHookMatchers<T> {}
+ * }
+ *
+ * // jest.d.ts
+ * declare global {
+ *   namespace jest {
+ *     interface Matchers<R> extends SafeHookMatchers<R> {}
+ *   }
+ * }
+ * ```
+ */
+export interface SafeHookMatchers<R = unknown> {
+  /** Passes when no safe-hook warning was captured */
+  toHaveNoSafeHookWarnings(): R;
+  /** Passes when a warning with the given rule or code was captured */
+  toHaveSafeHookWarning(ruleOrCode: WarningRule | string): R;
+}
+
+/**
+ * Matcher context passed by Jest and Vitest.
+ */
+interface MatcherContext {
+  /** Whether the matcher was called through `.not` */
+  isNot?: boolean;
+}
+
+/**
+ * Normalizes matcher input to a list of warnings.
+ *
+ * @param received - The value passed to expect()
+ * @returns The warnings to check, or a message explaining why the value
+ *   cannot be checked
+ */
+function toWarnings(received: unknown): readonly SafeHookWarning[] | string {
+  if (received === undefined) {
+    return getSafeHookWarnings();
+  }
+  if (Array.isArray(received)) {
+    return received;
+  }
+  if (
+    (typeof received === "object" || typeof received === "function") &&
+    received !== null &&
+    typeof (received as { then?: unknown }).then === "function"
+  ) {
+    return (
+      "Received a promise instead of captured warnings. The captured block returned " +
+      "a promise (act() always does in React 18), so the warnings are only available " +
+      "once it settles. Use `await captureSafeHookWarnings(...)` before the matcher."
+    );
+  }
+  if (
+    typeof received === "object" &&
+    received !== null &&
+    Array.isArray((received as CapturedSafeHookWarnings).warnings)
+  ) {
+    return (received as CapturedSafeHookWarnings).warnings;
+  }
+  return (
+    "Expected the result of captureSafeHookWarnings(...), an array of warnings or " +
+    `undefined, but received ${formatDependencyValue(received)}.`
+  );
+}
+
+/**
+ * Builds the result for input the matchers cannot check. It fails with and
+ * without `.not`, so a mistake never passes silently.
+ *
+ * @param context - The matcher context
+ * @param message - Why the input cannot be checked
+ * @returns A failing matcher result
+ */
+function invalidInput(context: MatcherContext | void, message: string): MatcherResult {
+  return { pass: Boolean(context?.isNot), message: () => message };
+}
+
+/**
+ * Formats warnings as a bulleted list for matcher failure messages.
+ *
+ * @param warnings - The warnings to list
+ * @returns One line per warning
+ */
+function describeWarnings(warnings: readonly SafeHookWarning[]): string {
+  if (warnings.length === 0) {
+    return "  (none)";
+  }
+  return warnings
+    .map(
+      (warning) =>
+        `  - ${warning.code} (${warning.rule}) in ${warning.componentName} ` +
+        `[${warning.hookName}]: ${warning.message}`
+    )
+    .join("\n");
+}
+
+/**
+ * Custom matchers to register with `expect.extend`.
+ *
+ * @example
+ * ```ts
+ * expect.extend(safeHookMatchers);
+ *
+ * const captured = captureSafeHookWarnings(() => render(<Cart />));
+ * expect(captured).toHaveNoSafeHookWarnings();
+ * ```
+ */
+export const safeHookMatchers = {
+  toHaveNoSafeHookWarnings(
+    this: MatcherContext | void,
+    received: SafeHookWarningsInput
+  ): MatcherResult {
+    const warnings = toWarnings(received);
+    if (typeof warnings === "string") {
+      return invalidInput(this, warnings);
+    }
+    const pass = warnings.length === 0;
+
+    return {
+      pass,
+      message: () =>
+        pass
+          ? "Expected safe-hook warnings, but none were reported."
+          : `Expected no safe-hook warnings, but received:\n${describeWarnings(warnings)}`,
+    };
+  },
+
+  toHaveSafeHookWarning(
+    this: MatcherContext | void,
+    received: SafeHookWarningsInput,
+    ruleOrCode: WarningRule | string
+  ): MatcherResult {
+    const warnings = toWarnings(received);
+    if (typeof warnings === "string") {
+      return invalidInput(this, warnings);
+    }
+    const pass = warnings.some(
+      (warning) => warning.rule === ruleOrCode || warning.code === ruleOrCode
+    );
+
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `Expected no "${ruleOrCode}" safe-hook warning, but received:\n${describeWarnings(warnings)}`
+          : `Expected a "${ruleOrCode}" safe-hook warning, but received:\n${describeWarnings(warnings)}`,
+    };
+  },
+};
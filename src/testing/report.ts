@@ -0,0 +1,115 @@
+/**
+ * Report file output for CI runs.
+ */
+
+import {
+  createSafeHookReport,
+  getSafeHookWarnings,
+  subscribeToSafeHookWarnings,
+  type SafeHookReportFormat,
+  type SafeHookWarning,
+  type SafeHookWarningEntry,
+} from "../internal";
+
+/** Warnings of the whole test run by key, kept across per-test resets */
+const runWarnings = new Map<string, SafeHookWarningEntry>();
+
+/** Whether runWarnings is being filled */
+let collectingRunWarnings = false;
+
+/**
+ * Starts keeping every warning of the test run for writeSafeHookReport, so
+ * resetting the history between tests does not empty the report. Called by
+ * setupSafeHookTesting.
+ */
+export function collectRunWarnings(): void {
+  if (collectingRunWarnings) {
+    return;
+  }
+  collectingRunWarnings = true;
+
+  subscribeToSafeHookWarnings((entry) => {
+    if (!entry) {
+      return;
+    }
+    const previous = runWarnings.get(entry.key);
+    runWarnings.set(entry.key, {
+      ...entry,
+      count: (previous?.count ?? 0) + 1,
+      firstSeen: previous?.firstSeen ?? entry.firstSeen,
+    });
+  });
+}
+
+/**
+ * Options for writeSafeHookReport.
+ */
+export interface WriteReportOptions {
+  /**
+   * Report format. Inferred from the file extension when omitted:
+   * `.sarif` and `.json` produce SARIF, anything else NDJSON.
+   */
+  format?: SafeHookReportFormat;
+
+  /**
+   * Warnings to write, e.g. the warnings collected from a browser page in a
+   * Playwright run. Defaults to every warning of the test run when
+   * setupSafeHookTesting was called, and to the session history otherwise.
+   */
+  warnings?: readonly SafeHookWarning[];
+
+  /**
+   * Project root used to make SARIF file paths relative.
+   * @default process.cwd()
+   */
+  rootDir?: string;
+}
+
+/**
+ * Writes a NDJSON or SARIF report of safe-hook warnings to a file,
+ * creating parent directories as needed. Node.js only.
+ *
+ * Call it from the test process, e.g. in `afterAll`: a global teardown runs
+ * in a separate process whose history is empty. Jest and Vitest load modules
+ * once per test file, so the report covers the tests of the current file.
+ *
+ * @param filePath - Destination path
+ * @param options - Format and warnings to write
+ *
+ * @example
+ * ```ts
+ * afterAll(async () => {
+ *   await writeSafeHookReport("reports/safe-hooks.sarif");
+ * });
+ * ```
+ */
+export async function writeSafeHookReport(
+  filePath: string,
+  options: WriteReportOptions = {}
+): Promise<void> {
+  const format =
+    options.format ?? (/\.(sarif|json)$/i.test(filePath) ? "sarif" : "ndjson");
+
+  // Loaded lazily so importing this entry point works outside Node
+  const fs = await import("node:fs/promises");
+  const path = await import("node:path");
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(
+    filePath,
+    createSafeHookReport(format, options.warnings ?? defaultReportWarnings(), {
+      rootDir: options.rootDir ?? process.cwd(),
+    }),
+    "utf8"
+  );
+}
+
+/**
+ * Returns the warnings written when none are passed.
+ *
+ * @returns The warnings of the test run, or the session history when they
+ *   are not being collected
+ */
+function defaultReportWarnings(): readonly SafeHookWarning[] {
+  return collectingRunWarnings ? Array.from(runWarnings.values()) : getSafeHookWarnings();
+}
@@ -3,6 +3,8 @@
  */
 
 import type { DependencyList, EffectCallback, Dispatch, SetStateAction } from "react";
+import type { SafeHooksRules } from "./internal/rules";
+import type { DeepCompareOptions } from "./internal/deepDiff";
 
 /**
  * Options for useSafeEffect hook.
@@ -27,8 +29,69 @@ export interface SafeEffectOptions {
    * @default true
    */
   warnOnChangingDeps?: boolean;
+
+  /**
+   * Labels for the dependency array, in the same order as the deps.
+   * Warnings name dependencies by label instead of by index.
+   * @example ["userId", "filters"]
+   */
+  depNames?: readonly string[];
+
+  /**
+   * Compare dependencies structurally instead of shallowly.
+   * Catches nested objects, arrays of objects, Maps, Sets, Dates and inline
+   * functions recreated with equal content, and names the path of the
+   * recreated value. Pass an object to change the size budget.
+   * @default false
+   */
+  deepCompareDeps?: boolean | DeepCompareOptions;
+
+  /**
+   * Log every re-run to the console in a collapsed group, listing the
+   * dependencies that triggered it with their old and new values.
+   * @default false
+   */
+  logChanges?: boolean;
+
+  /**
+   * Render values to check timer and listener callbacks against.
+   * When set, callbacks registered with setTimeout, setInterval,
+   * requestAnimationFrame or addEventListener while the effect body runs are
+   * tracked, and a warning is reported when one fires after any of these
+   * values changed since the effect ran.
+   * @example { count }
+   */
+  watch?: Record<string, unknown>;
+
+  /**
+   * Track the resources the effect body creates and warn when they outlive
+   * the effect. Covers setTimeout, setInterval, addEventListener,
+   * ResizeObserver, MutationObserver, IntersectionObserver and
+   * AbortController. Checked each time the cleanup runs.
+   * @default false
+   */
+  detectLeaks?: boolean;
+
+  /**
+   * Rule levels for this hook call, overriding the global configuration.
+   * @example { "unstable-deps": "off" }
+   */
+  rules?: SafeHooksRules;
 }
 
+/**
+ * Async effect callback for useSafeAsyncEffect.
+ * Receives a signal that is aborted when the dependencies change or the
+ * component unmounts, and may resolve to a cleanup function.
+ */
+export type AsyncEffectCallback = (signal: AbortSignal) => Promise<void | (() => void)>;
+
+/**
+ * Options for useSafeAsyncEffect hook.
+ * The same as for useSafeEffect, whose dependency checks it shares.
+ */
+export type SafeAsyncEffectOptions = SafeEffectOptions;
+
 /**
  * Options for useSafeCallback hook.
  */
@@ -44,6 +107,35 @@ export interface SafeCallbackOptions {
    * @default true
    */
   warnOnStaleClosure?: boolean;
+
+  /**
+   * Labels for the dependency array, in the same order as the deps.
+   * Warnings name dependencies by label instead of by index.
+   * @example ["userId", "filters"]
+   */
+  depNames?: readonly string[];
+
+  /**
+   * Compare dependencies structurally instead of shallowly.
+   * Catches nested objects, arrays of objects, Maps, Sets, Dates and inline
+   * functions recreated with equal content, and names the path of the
+   * recreated value. Pass an object to change the size budget.
+   * @default false
+   */
+  deepCompareDeps?: boolean | DeepCompareOptions;
+
+  /**
+   * Log every re-run to the console in a collapsed group, listing the
+   * dependencies that triggered it with their old and new values.
+   * @default false
+   */
+  logChanges?: boolean;
+
+  /**
+   * Rule levels for this hook call, overriding the global configuration.
+   * @example { "stale-closure": "off" }
+   */
+  rules?: SafeHooksRules;
 }
 
 /**
@@ -66,9 +158,40 @@ export interface SafeMemoOptions {
   /**
    * Threshold for "excessive" recomputations.
    * Warnings are triggered when recompute count exceeds this.
+   * Defaults to the `recompute` threshold of the nearest SafeHooksProvider
+   * or the global configuration.
    * @default 10
    */
   recomputeThreshold?: number;
+
+  /**
+   * Labels for the dependency array, in the same order as the deps.
+   * Warnings name dependencies by label instead of by index.
+   * @example ["userId", "filters"]
+   */
+  depNames?: readonly string[];
+
+  /**
+   * Compare dependencies structurally instead of shallowly.
+   * Catches nested objects, arrays of objects, Maps, Sets, Dates and inline
+   * functions recreated with equal content, and names the path of the
+   * recreated value. Pass an object to change the size budget.
+   * @default false
+   */
+  deepCompareDeps?: boolean | DeepCompareOptions;
+
+  /**
+   * Log every re-run to the console in a collapsed group, listing the
+   * dependencies that triggered it with their old and new values.
+   * @default false
+   */
+  logChanges?: boolean;
+
+  /**
+   * Rule levels for this hook call, overriding the global configuration.
+   * @example { "excessive-recompute": "off" }
+   */
+  rules?: SafeHooksRules;
 }
 
 /**
@@ -80,6 +203,12 @@ export interface SafeStateOptions {
    * Uses the component name if not provided.
    */
   name?: string;
+
+  /**
+   * Rule levels for this hook call, overriding the global configuration.
+   * @example { "unmounted-update": "off" }
+   */
+  rules?: SafeHooksRules;
 }
 
 // Re-export React types for convenience
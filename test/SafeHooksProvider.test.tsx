@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { memo } from "react";
+import { act, create, type ReactTestRenderer } from "react-test-renderer";
+import { SafeHooksProvider, useSafeState } from "../src";
+
+describe("SafeHooksProvider", () => {
+  it("keeps its scope when an inline config has the same settings", () => {
+    let renders = 0;
+    const Child = memo(function Child() {
+      useSafeState(0);
+      renders += 1;
+      return null;
+    });
+
+    const App = (_props: { tick: number }) => (
+      <SafeHooksProvider config={{ rules: { "stale-closure": "error" } }}>
+        <Child />
+      </SafeHooksProvider>
+    );
+
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(<App tick={0} />);
+    });
+    for (let tick = 1; tick <= 5; tick++) {
+      act(() => renderer.update(<App tick={tick} />));
+    }
+    act(() => renderer.unmount());
+
+    expect(renders).toBe(1);
+  });
+
+  it("updates its scope when the settings change", () => {
+    let renders = 0;
+    const Child = memo(function Child() {
+      useSafeState(0);
+      renders += 1;
+      return null;
+    });
+
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <SafeHooksProvider config={{ rules: { "stale-closure": "error" } }}>
+          <Child />
+        </SafeHooksProvider>
+      );
+    });
+    act(() =>
+      renderer.update(
+        <SafeHooksProvider config={{ rules: { "stale-closure": "off" } }}>
+          <Child />
+        </SafeHooksProvider>
+      )
+    );
+    act(() => renderer.unmount());
+
+    expect(renders).toBe(2);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  configureSafeHooks,
+  flushSafeHookWarnings,
+  resetSafeHooksConfig,
+  useSafeState,
+  type SafeHookWarning,
+} from "../src";
+import { renderHook } from "./renderHook";
+
+/** Renders useSafeState, unmounts and returns the setter */
+function setterAfterUnmount() {
+  const { result, unmount } = renderHook(() => useSafeState(0), {});
+  unmount();
+  return result.current[1];
+}
+
+describe("warning aggregation", () => {
+  const reported: SafeHookWarning[] = [];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    reported.length = 0;
+    configureSafeHooks({
+      reporter: (warning) => reported.push(warning),
+      aggregate: { windowMs: 100 },
+    });
+  });
+
+  afterEach(() => {
+    resetSafeHooksConfig();
+    configureSafeHooks({ reporter: [] });
+    vi.useRealTimers();
+  });
+
+  it("reports repeats once per window with an occurrence count", () => {
+    const setCount = setterAfterUnmount();
+    setCount(1);
+    setCount(2);
+    setCount(3);
+    expect(reported).toHaveLength(0);
+
+    vi.advanceTimersByTime(100);
+    expect(reported).toHaveLength(1);
+    expect(reported[0]).toMatchObject({
+      rule: "unmounted-update",
+      occurrences: { count: 3 },
+    });
+  });
+
+  it("reports pending warnings when flushed", () => {
+    const setCount = setterAfterUnmount();
+    setCount(1);
+    flushSafeHookWarnings();
+
+    expect(reported).toHaveLength(1);
+    expect(reported[0].occurrences?.count).toBe(1);
+
+    vi.advanceTimersByTime(100);
+    expect(reported).toHaveLength(1);
+  });
+
+  it("reports each warning right away when disabled", () => {
+    configureSafeHooks({ aggregate: false });
+    const setCount = setterAfterUnmount();
+    setCount(1);
+    setCount(2);
+
+    expect(reported).toHaveLength(2);
+    expect(reported[0].occurrences).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { useSafeEffect } from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { deepDiff } from "../src/internal/deepDiff";
+import { renderHook } from "./renderHook";
+
+describe("deepDiff", () => {
+  it("reports the innermost recreated value", () => {
+    const prev = { options: { sort: { by: "name" } } };
+    const current = { options: { sort: { by: "name" } } };
+    expect(deepDiff(prev, current, "config")).toEqual({
+      kind: "identical",
+      newReferences: ["config.options.sort"],
+    });
+  });
+
+  it("reports every recreated sibling", () => {
+    const fn = () => 1;
+    expect(deepDiff({ a: [1], b: { c: 2 }, fn }, { a: [1], b: { c: 2 }, fn }, "deps[0]")).toEqual({
+      kind: "identical",
+      newReferences: ["deps[0].a", "deps[0].b"],
+    });
+  });
+
+  it("names the path of the first difference", () => {
+    const prev = { filters: { status: "open" } };
+    const current = { filters: { status: "closed" } };
+    expect(deepDiff(prev, current, "query")).toEqual({
+      kind: "different",
+      path: "query.filters.status",
+      prev: "open",
+      current: "closed",
+    });
+  });
+
+  it("names array, Map, Set and quoted keys in paths", () => {
+    expect(deepDiff([{ id: 1 }], [{ id: 2 }], "items")).toMatchObject({ path: "items[0].id" });
+    expect(deepDiff([1, 2], [1], "items")).toMatchObject({
+      path: "items.length",
+      prev: 2,
+      current: 1,
+    });
+    const prevMap = new Map([["a", { n: 1 }]]);
+    const currentMap = new Map([["a", { n: 2 }]]);
+    expect(deepDiff(prevMap, currentMap, "byId")).toMatchObject({ path: 'byId.get("a").n' });
+    expect(deepDiff(new Set([{ n: 1 }]), new Set([{ n: 2 }]), "tags")).toMatchObject({
+      path: "tags[entry 0].n",
+    });
+    expect(deepDiff({ "data-id": 1 }, { "data-id": 2 }, "attrs")).toMatchObject({
+      path: 'attrs["data-id"]',
+    });
+  });
+
+  it("compares inline functions by source", () => {
+    expect(deepDiff({ onSave: () => 1 }, { onSave: () => 1 }, "deps[0]")).toEqual({
+      kind: "identical",
+      newReferences: ["deps[0].onSave"],
+    });
+    expect(deepDiff(() => 1, () => 2, "deps[0]")).toMatchObject({
+      kind: "different",
+      path: "deps[0]",
+    });
+  });
+
+  it("compares Dates by time and follows cycles once", () => {
+    expect(deepDiff(new Date(1), new Date(2), "when")).toMatchObject({ kind: "different" });
+
+    const prev: Record<string, unknown> = { name: "a" };
+    prev.self = prev;
+    const current: Record<string, unknown> = { name: "a" };
+    current.self = current;
+    expect(deepDiff(prev, current, "node")).toEqual({ kind: "identical", newReferences: ["node"] });
+  });
+
+  it("gives up when the node budget runs out", () => {
+    const big = () => Array.from({ length: 20 }, (_, i) => ({ i }));
+    expect(deepDiff(big(), big(), "list", { maxNodes: 10 })).toEqual({ kind: "budget-exceeded" });
+  });
+});
+
+describe("deepCompareDeps", () => {
+  it("names the recreated path in the unstable-deps warning", () => {
+    const { warnings } = captureSafeHookWarnings(() => {
+      const { rerender, unmount } = renderHook(({ page }: { page: number }) => {
+        const query = { filters: { status: "open" }, page };
+        useSafeEffect(() => {}, [query], { depNames: ["query"], deepCompareDeps: true });
+      }, { page: 1 });
+      rerender({ page: 1 });
+      rerender({ page: 1 });
+      unmount();
+    });
+
+    const unstable = warnings.find((warning) => warning.rule === "unstable-deps");
+    expect(unstable?.details).toContain("new reference at `query.filters`");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { useSafeCallback, useSafeEffect } from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+describe("volatile dependencies", () => {
+  it("does not report a fraction that changes with a prop", () => {
+    const warnings = captureSafeHookWarnings(() => {
+      const { rerender, unmount } = renderHook(({ progress }: { progress: number }) => {
+        useSafeEffect(() => {}, [progress]);
+      }, { progress: 0.1 });
+      rerender({ progress: 0.2 });
+      rerender({ progress: 0.3 });
+      rerender({ progress: 0.4 });
+      unmount();
+    });
+
+    expect(warnings).not.toHaveSafeHookWarning("volatile-deps");
+  });
+
+  it("reports a timestamp generated on every render", () => {
+    let now = Date.now();
+    const warnings = captureSafeHookWarnings(() => {
+      const { rerender, unmount } = renderHook(({ page }: { page: number }) => {
+        const requestedAt = now++;
+        useSafeEffect(() => {}, [page, requestedAt]);
+      }, { page: 1 });
+      rerender({ page: 1 });
+      rerender({ page: 1 });
+      rerender({ page: 1 });
+      unmount();
+    });
+
+    expect(warnings).toHaveSafeHookWarning("volatile-deps");
+  });
+});
+
+describe("inline function dependencies", () => {
+  it("does not report a memoized callback whose deps change", () => {
+    const warnings = captureSafeHookWarnings(() => {
+      const { rerender, unmount } = renderHook(({ query }: { query: string }) => {
+        const getQuery = useSafeCallback(() => query, [query]);
+        useSafeEffect(() => {}, [getQuery]);
+      }, { query: "a" });
+      rerender({ query: "ab" });
+      rerender({ query: "abc" });
+      rerender({ query: "abcd" });
+      unmount();
+    });
+
+    expect(warnings).not.toHaveSafeHookWarning("inline-function-deps");
+  });
+
+  it("reports an inline function recreated on every render", () => {
+    const warnings = captureSafeHookWarnings(() => {
+      const { rerender, unmount } = renderHook(({ query }: { query: string }) => {
+        const getQuery = () => query;
+        useSafeEffect(() => {}, [getQuery]);
+      }, { query: "a" });
+      rerender({ query: "a" });
+      rerender({ query: "a" });
+      rerender({ query: "a" });
+      unmount();
+    });
+
+    expect(warnings).toHaveSafeHookWarning("inline-function-deps");
+  });
+});
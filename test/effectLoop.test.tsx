@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { useState } from "react";
+import {
+  configureSafeHooks,
+  resetSafeHooksConfig,
+  useSafeEffect,
+  useSafeLayoutEffect,
+} from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+describe.each([
+  ["useSafeEffect", useSafeEffect],
+  ["useSafeLayoutEffect", useSafeLayoutEffect],
+] as const)("%s loop detection", (_name, useEffectHook) => {
+  beforeEach(() => {
+    configureSafeHooks({ thresholds: { effectRuns: 5 } });
+  });
+
+  afterEach(() => {
+    resetSafeHooksConfig();
+    configureSafeHooks({ reporter: [] });
+  });
+
+  it("warns when the effect keeps setting state it depends on", () => {
+    const { warnings } = captureSafeHookWarnings(() => {
+      renderHook(() => {
+        const [count, setCount] = useState(0);
+        useEffectHook(() => {
+          if (count < 10) {
+            setCount(count + 1);
+          }
+        }, [count], { depNames: ["count"] });
+      }, {}).unmount();
+    });
+
+    const loop = warnings.find((warning) => warning.rule === "effect-loop");
+    expect(loop?.details).toContain("Dependencies that changed on every run: `count`");
+  });
+
+  it("does not warn for an effect that settles", () => {
+    const captured = captureSafeHookWarnings(() => {
+      renderHook(() => {
+        const [count, setCount] = useState(0);
+        useEffectHook(() => {
+          if (count < 3) {
+            setCount(count + 1);
+          }
+        }, [count]);
+      }, {}).unmount();
+    });
+
+    expect(captured).not.toHaveSafeHookWarning("effect-loop");
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from "vitest";
+import { act } from "react-test-renderer";
+import { useSafeEffect } from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+describe("useSafeEffect instrumentation", () => {
+  it("does not define timer globals the environment lacks", () => {
+    const globals = globalThis as { requestAnimationFrame?: unknown };
+    expect("requestAnimationFrame" in globals).toBe(false);
+
+    renderHook(({ count }: { count: number }) => {
+      useSafeEffect(() => {}, [], { watch: { count } });
+    }, { count: 0 });
+
+    expect("requestAnimationFrame" in globals).toBe(false);
+  });
+
+  it("removes watched listeners outside of the effect and its cleanup", () => {
+    const bus = new EventTarget();
+    const handler = vi.fn();
+
+    renderHook(({ count }: { count: number }) => {
+      useSafeEffect(() => {
+        bus.addEventListener("ping", handler);
+      }, [], { watch: { count } });
+    }, { count: 0 });
+
+    bus.dispatchEvent(new Event("ping"));
+    bus.removeEventListener("ping", handler);
+    bus.dispatchEvent(new Event("ping"));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("registers a watched listener again after it fired once", () => {
+    const bus = new EventTarget();
+    const handler = vi.fn();
+    const subscribe = ({ count }: { count: number }) => {
+      useSafeEffect(() => {
+        bus.addEventListener("ping", handler, { once: true });
+      }, [], { watch: { count } });
+    };
+
+    const first = renderHook(subscribe, { count: 0 });
+    bus.dispatchEvent(new Event("ping"));
+    first.unmount();
+
+    const second = renderHook(subscribe, { count: 0 });
+    bus.dispatchEvent(new Event("ping"));
+    second.unmount();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("registers a watched listener again after its signal aborted", () => {
+    const bus = new EventTarget();
+    const handler = vi.fn();
+    const subscribe = ({ count }: { count: number }) => {
+      useSafeEffect(() => {
+        const controller = new AbortController();
+        bus.addEventListener("ping", handler, { signal: controller.signal });
+        return () => controller.abort();
+      }, [], { watch: { count } });
+    };
+
+    const first = renderHook(subscribe, { count: 0 });
+    bus.dispatchEvent(new Event("ping"));
+    first.unmount();
+
+    const second = renderHook(subscribe, { count: 0 });
+    bus.dispatchEvent(new Event("ping"));
+    second.unmount();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("warns when a watched listener fires with outdated values", () => {
+    const bus = new EventTarget();
+    const { rerender, unmount } = renderHook(({ count }: { count: number }) => {
+      useSafeEffect(() => {
+        const handler = () => count;
+        bus.addEventListener("ping", handler);
+        return () => bus.removeEventListener("ping", handler);
+      }, [], { watch: { count } });
+    }, { count: 0 });
+
+    const fresh = captureSafeHookWarnings(() => bus.dispatchEvent(new Event("ping")));
+    expect(fresh).toHaveNoSafeHookWarnings();
+
+    rerender({ count: 1 });
+    const stale = captureSafeHookWarnings(() => bus.dispatchEvent(new Event("ping")));
+    expect(stale).toHaveSafeHookWarning("stale-effect-callback");
+
+    unmount();
+  });
+
+  it("keeps timers working", async () => {
+    vi.useFakeTimers();
+    const tick = vi.fn();
+    const { unmount } = renderHook(({ count }: { count: number }) => {
+      useSafeEffect(() => {
+        const id = setInterval(tick, 10);
+        return () => clearInterval(id);
+      }, [], { watch: { count } });
+    }, { count: 0 });
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(30);
+    });
+    unmount();
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(30);
+    });
+
+    expect(tick).toHaveBeenCalledTimes(3);
+    vi.useRealTimers();
+  });
+});
+
+describe("useSafeEffect leak detection", () => {
+  it("does not define observer globals the environment lacks", () => {
+    const globals = globalThis as { IntersectionObserver?: unknown; ResizeObserver?: unknown };
+    expect("IntersectionObserver" in globals).toBe(false);
+
+    const { unmount } = renderHook(() => {
+      useSafeEffect(() => {}, [], { detectLeaks: true });
+    }, {});
+    unmount();
+
+    expect("IntersectionObserver" in globals).toBe(false);
+    expect("ResizeObserver" in globals).toBe(false);
+  });
+
+  it("does not report listeners removed outside of the effect", () => {
+    const bus = new EventTarget();
+    const handler = vi.fn();
+    const { unmount } = renderHook(() => {
+      useSafeEffect(() => {
+        bus.addEventListener("ping", handler);
+      }, [], { detectLeaks: true });
+    }, {});
+
+    bus.removeEventListener("ping", handler);
+    const warnings = captureSafeHookWarnings(() => unmount());
+
+    expect(warnings).toHaveNoSafeHookWarnings();
+  });
+
+  it("registers a listener again after its signal aborted", () => {
+    const bus = new EventTarget();
+    const handler = vi.fn();
+    const { rerender, unmount } = renderHook(({ room }: { room: string }) => {
+      useSafeEffect(() => {
+        const controller = new AbortController();
+        bus.addEventListener("ping", handler, { signal: controller.signal });
+        return () => controller.abort();
+      }, [room], { detectLeaks: true });
+    }, { room: "a" });
+
+    bus.dispatchEvent(new Event("ping"));
+    rerender({ room: "b" });
+    bus.dispatchEvent(new Event("ping"));
+    const warnings = captureSafeHookWarnings(() => unmount());
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(warnings).toHaveNoSafeHookWarnings();
+  });
+
+  it("does not report timers cleared outside of the effect", () => {
+    let timerId: ReturnType<typeof setInterval> | undefined;
+    const { unmount } = renderHook(() => {
+      useSafeEffect(() => {
+        timerId = setInterval(() => {}, 1000);
+      }, [], { detectLeaks: true });
+    }, {});
+
+    clearInterval(timerId);
+    const warnings = captureSafeHookWarnings(() => unmount());
+
+    expect(warnings).toHaveNoSafeHookWarnings();
+  });
+
+  it("reports timers that are never cleared", () => {
+    let timerId: ReturnType<typeof setInterval> | undefined;
+    const { unmount } = renderHook(() => {
+      useSafeEffect(() => {
+        timerId = setInterval(() => {}, 1000);
+      }, [], { detectLeaks: true });
+    }, {});
+
+    const warnings = captureSafeHookWarnings(() => unmount());
+    clearInterval(timerId);
+
+    expect(warnings).toHaveSafeHookWarning("effect-leak");
+  });
+});
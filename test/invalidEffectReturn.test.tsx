@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { EffectCallback } from "react";
+import { useSafeEffect, useSafeLayoutEffect } from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+describe.each([
+  ["useSafeEffect", useSafeEffect],
+  ["useSafeLayoutEffect", useSafeLayoutEffect],
+] as const)("%s return values", (name, useEffectHook) => {
+  /** Runs an effect through the hook and returns the captured warnings */
+  const runEffect = (effect: () => unknown) =>
+    captureSafeHookWarnings(() => {
+      renderHook(() => useEffectHook(effect as EffectCallback, []), {}).unmount();
+    }).warnings;
+
+  it("warns when an async callback returns a Promise", () => {
+    const warnings = runEffect(async () => {});
+
+    expect(warnings).toHaveSafeHookWarning("invalid-effect-return");
+    expect(warnings[0].details).toContain("returned a Promise");
+    expect(warnings[0].fix).toContain(`${name}(() => {`);
+  });
+
+  it("warns when a value is returned implicitly", () => {
+    const warnings = runEffect(() => 42);
+
+    expect(warnings).toHaveSafeHookWarning("invalid-effect-return");
+    expect(warnings[0].details).toContain("returned 42");
+  });
+
+  it("accepts a cleanup function or nothing", () => {
+    expect(runEffect(() => () => {})).toHaveNoSafeHookWarnings();
+    expect(runEffect(() => {})).toHaveNoSafeHookWarnings();
+  });
+});
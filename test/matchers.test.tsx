@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { act } from "react-test-renderer";
+import { captureSafeHookWarnings } from "../src/testing";
+
+describe("safe-hook matchers", () => {
+  it("fails with a hint when the capture of an act() block is not awaited", async () => {
+    const captured = captureSafeHookWarnings(() => act(() => {}));
+
+    expect(() => expect(captured).toHaveNoSafeHookWarnings()).toThrow(
+      "await captureSafeHookWarnings(...)"
+    );
+    expect(() => expect(captured).not.toHaveSafeHookWarning("stale-closure")).toThrow(
+      "await captureSafeHookWarnings(...)"
+    );
+
+    expect(await captured).toHaveNoSafeHookWarnings();
+  });
+
+  it("fails for values that are not warnings", () => {
+    expect(() => expect({ count: 1 }).toHaveNoSafeHookWarnings()).toThrow(
+      "Expected the result of captureSafeHookWarnings(...)"
+    );
+  });
+});
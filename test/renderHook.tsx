@@ -0,0 +1,55 @@
+/**
+ * Minimal hook renderer on top of react-test-renderer.
+ */
+
+import { act, create, type ReactTestRenderer } from "react-test-renderer";
+
+/**
+ * A rendered hook.
+ */
+export interface RenderedHook<P, R> {
+  /** Value returned by the latest render */
+  result: { current: R };
+  /** Renders again with new props */
+  rerender(props: P): void;
+  /** Unmounts the component */
+  unmount(): void;
+}
+
+/**
+ * Renders a hook inside a test component.
+ *
+ * @param hook - Calls the hook under test with the component props
+ * @param initialProps - Props of the first render
+ * @returns The latest result and functions to rerender or unmount
+ */
+export function renderHook<P extends object, R>(
+  hook: (props: P) => R,
+  initialProps: P
+): RenderedHook<P, R> {
+  const result = { current: undefined as R };
+
+  function HookProbe(props: P) {
+    result.current = hook(props);
+    return null;
+  }
+
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = create(<HookProbe {...initialProps} />);
+  });
+
+  return {
+    result,
+    rerender(props) {
+      act(() => {
+        renderer.update(<HookProbe {...props} />);
+      });
+    },
+    unmount() {
+      act(() => {
+        renderer.unmount();
+      });
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { useSafeEffect } from "../src";
+import { writeSafeHookReport } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+function NoDeps() {
+  useSafeEffect(() => {});
+}
+
+describe("writeSafeHookReport", () => {
+  it("records a warning in the first test", () => {
+    renderHook(NoDeps, {}).unmount();
+    expect(undefined).toHaveSafeHookWarning("no-deps");
+  });
+
+  it("records a warning in the second test", () => {
+    renderHook(() => {
+      useSafeEffect(() => {});
+    }, {}).unmount();
+    expect(undefined).toHaveSafeHookWarning("no-deps");
+  });
+
+  it("reports the warnings of every test, not only the last one", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "safe-hooks-report-"));
+    try {
+      const file = join(dir, "report.ndjson");
+      await writeSafeHookReport(file);
+
+      const lines = (await readFile(file, "utf8")).trim().split("\n");
+      const rules = lines.map((line) => (JSON.parse(line) as { rule: string }).rule);
+      expect(rules).toEqual(["no-deps", "no-deps"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
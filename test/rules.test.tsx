@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { act, create, type ReactTestRenderer } from "react-test-renderer";
+import {
+  SafeHooksError,
+  SafeHooksProvider,
+  WARNING_RULES,
+  configureSafeHooks,
+  resetSafeHooksConfig,
+  useSafeState,
+  type SafeHooksRules,
+} from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+/** Renders useSafeState, unmounts and returns the setter */
+function setterAfterUnmount(rules?: SafeHooksRules) {
+  const { result, unmount } = renderHook(() => useSafeState(0, { rules }), {});
+  unmount();
+  return result.current[1];
+}
+
+describe("rule levels", () => {
+  afterEach(() => {
+    resetSafeHooksConfig();
+    configureSafeHooks({ reporter: [] });
+  });
+
+  it("reports with warn severity by default", () => {
+    const setCount = setterAfterUnmount();
+    const { warnings } = captureSafeHookWarnings(() => setCount(1));
+
+    expect(warnings).toHaveSafeHookWarning("unmounted-update");
+    expect(warnings[0]).toMatchObject({
+      severity: "warn",
+      code: WARNING_RULES["unmounted-update"].code,
+    });
+  });
+
+  it("ignores rules turned off for one call", () => {
+    const setCount = setterAfterUnmount({ "unmounted-update": "off" });
+    const captured = captureSafeHookWarnings(() => setCount(1));
+
+    expect(captured).toHaveNoSafeHookWarnings();
+  });
+
+  it("reports with error severity when configured globally", () => {
+    configureSafeHooks({ rules: { "unmounted-update": "error" } });
+    const setCount = setterAfterUnmount();
+    const { warnings } = captureSafeHookWarnings(() => setCount(1));
+
+    expect(warnings[0].severity).toBe("error");
+  });
+
+  it("lets per-call levels override the global configuration", () => {
+    configureSafeHooks({ rules: { "unmounted-update": "off" } });
+    const setCount = setterAfterUnmount({ "unmounted-update": "warn" });
+    const captured = captureSafeHookWarnings(() => setCount(1));
+
+    expect(captured).toHaveSafeHookWarning("unmounted-update");
+  });
+
+  it("throws a SafeHooksError carrying the warning", () => {
+    const setCount = setterAfterUnmount({ "unmounted-update": "throw" });
+
+    let thrown: unknown;
+    const { warnings } = captureSafeHookWarnings(() => {
+      try {
+        setCount(1);
+      } catch (error) {
+        thrown = error;
+      }
+    });
+
+    expect(thrown).toBeInstanceOf(SafeHooksError);
+    const error = thrown as SafeHooksError;
+    expect(error.code).toBe(WARNING_RULES["unmounted-update"].code);
+    expect(error.warning).toMatchObject({ rule: "unmounted-update", severity: "error" });
+    expect(warnings).toHaveSafeHookWarning("unmounted-update");
+  });
+
+  it("applies the rule levels of the nearest provider", () => {
+    let setCount!: (value: number) => void;
+    function Counter() {
+      setCount = useSafeState(0)[1];
+      return null;
+    }
+
+    let renderer!: ReactTestRenderer;
+    act(() => {
+      renderer = create(
+        <SafeHooksProvider config={{ rules: { "unmounted-update": "off" } }}>
+          <Counter />
+        </SafeHooksProvider>
+      );
+    });
+    act(() => renderer.unmount());
+    const captured = captureSafeHookWarnings(() => setCount(1));
+
+    expect(captured).toHaveNoSafeHookWarnings();
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Test setup: enables act() for react-test-renderer and registers the
+ * library's own matchers.
+ */
+
+import { beforeEach, expect } from "vitest";
+import { configureSafeHooks } from "../src";
+import { setupSafeHookTesting, type SafeHookMatchers } from "../src/testing";
+
+declare module "vitest" {
+  interface Assertion<T> extends SafeHookMatchers<T> {}
+}
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Expected warnings are asserted on, not printed
+configureSafeHooks({ reporter: [] });
+
+setupSafeHookTesting({ expect, beforeEach });
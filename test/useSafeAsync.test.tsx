@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act } from "react-test-renderer";
+import { useSafeAsync } from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+/**
+ * A stub async function: each call returns a promise that resolves with the
+ * given value after the given delay, ignoring the abort signal.
+ */
+function createStub() {
+  const calls: { value: string; signal: AbortSignal }[] = [];
+  const load = (value: string, delay: number) => (signal: AbortSignal) => {
+    calls.push({ value, signal });
+    return new Promise<string>((resolve) => setTimeout(() => resolve(value), delay));
+  };
+  return { calls, load };
+}
+
+/** Advances the fake timers and flushes the resulting promise callbacks */
+async function advance(ms: number) {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+}
+
+describe("useSafeAsync", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets only the latest call write its result", async () => {
+    const stub = createStub();
+    const { result, rerender } = renderHook(
+      ({ value, delay }: { value: string; delay: number }) =>
+        useSafeAsync(stub.load(value, delay), [value]),
+      { value: "slow", delay: 100 }
+    );
+    expect(result.current.status).toBe("pending");
+
+    rerender({ value: "fast", delay: 10 });
+    expect(stub.calls[0].signal.aborted).toBe(true);
+
+    await advance(10);
+    expect(result.current).toMatchObject({ status: "success", data: "fast" });
+
+    await advance(100);
+    expect(result.current).toMatchObject({ status: "success", data: "fast" });
+  });
+
+  it("warns when an older call resolves after a newer one", async () => {
+    const stub = createStub();
+    const { rerender } = renderHook(
+      ({ value, delay }: { value: string; delay: number }) =>
+        useSafeAsync(stub.load(value, delay), [value]),
+      { value: "slow", delay: 100 }
+    );
+    rerender({ value: "fast", delay: 10 });
+
+    await advance(10);
+    const captured = await captureSafeHookWarnings(() => advance(100));
+    expect(captured).toHaveSafeHookWarning("async-out-of-order");
+  });
+
+  it("does not warn when a superseded call resolves first", async () => {
+    const stub = createStub();
+    const { result, rerender } = renderHook(
+      ({ value, delay }: { value: string; delay: number }) =>
+        useSafeAsync(stub.load(value, delay), [value]),
+      { value: "first", delay: 10 }
+    );
+    rerender({ value: "second", delay: 100 });
+
+    const captured = await captureSafeHookWarnings(() => advance(100));
+    expect(captured).toHaveNoSafeHookWarnings();
+    expect(result.current.data).toBe("second");
+  });
+
+  it("warns when a call resolves after unmount", async () => {
+    const stub = createStub();
+    const { unmount } = renderHook(() => useSafeAsync(stub.load("value", 50), []), {});
+    unmount();
+    expect(stub.calls[0].signal.aborted).toBe(true);
+
+    const captured = await captureSafeHookWarnings(() => advance(50));
+    expect(captured).toHaveSafeHookWarning("async-result-after-unmount");
+  });
+
+  it("reports instead of throwing when the rule level is throw", async () => {
+    const stub = createStub();
+    const { unmount } = renderHook(
+      () =>
+        useSafeAsync(stub.load("value", 50), [], {
+          rules: { "async-result-after-unmount": "throw" },
+        }),
+      {}
+    );
+    unmount();
+
+    const { warnings } = await captureSafeHookWarnings(() => advance(50));
+    expect(warnings).toHaveSafeHookWarning("async-result-after-unmount");
+    expect(warnings[0].severity).toBe("error");
+  });
+
+  it("reloads, keeping the previous data while pending", async () => {
+    const stub = createStub();
+    let count = 0;
+    const { result } = renderHook(
+      () => useSafeAsync((signal) => stub.load(`call ${++count}`, 10)(signal), []),
+      {}
+    );
+    await advance(10);
+    expect(result.current).toMatchObject({ status: "success", data: "call 1" });
+
+    const { reload } = result.current;
+    act(() => {
+      result.current.reload();
+    });
+    expect(result.current).toMatchObject({ status: "pending", data: "call 1" });
+    expect(result.current.reload).toBe(reload);
+
+    await advance(10);
+    expect(result.current).toMatchObject({ status: "success", data: "call 2" });
+  });
+
+  it("reports the rejection of the latest call as an error", async () => {
+    const { result } = renderHook(
+      () =>
+        useSafeAsync(
+          () => new Promise<string>((_, reject) => setTimeout(() => reject(new Error("boom")), 10)),
+          []
+        ),
+      {}
+    );
+    await advance(10);
+
+    expect(result.current.status).toBe("error");
+    expect(result.current.error).toEqual(new Error("boom"));
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { useSafeCallback } from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+describe("useSafeCallback stale invocations", () => {
+  const renderCounter = () =>
+    renderHook(
+      ({ count }: { count: number }) => useSafeCallback(() => count, [count]),
+      { count: 1 }
+    );
+
+  it("warns when a callback from an earlier render is called", () => {
+    const { result, rerender, unmount } = renderCounter();
+    const first = result.current;
+    rerender({ count: 2 });
+
+    const { warnings, result: value } = captureSafeHookWarnings(() => first());
+    unmount();
+
+    expect(value).toBe(1);
+    expect(warnings).toHaveSafeHookWarning("stale-invocation");
+    expect(warnings[0].details).toContain("1 → 2");
+  });
+
+  it("does not warn for the latest callback", () => {
+    const { result, rerender, unmount } = renderCounter();
+    rerender({ count: 2 });
+
+    const captured = captureSafeHookWarnings(() => result.current());
+    unmount();
+
+    expect(captured).toHaveNoSafeHookWarnings();
+  });
+
+  it("does not warn when the dependencies did not change", () => {
+    const { result, rerender, unmount } = renderCounter();
+    const first = result.current;
+    rerender({ count: 1 });
+
+    const captured = captureSafeHookWarnings(() => first());
+    unmount();
+
+    expect(first).toBe(result.current);
+    expect(captured).toHaveNoSafeHookWarnings();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { act, create, type ReactTestRenderer } from "react-test-renderer";
+import { useSafeEffect } from "../src";
+import { captureSafeHookWarnings } from "../src/testing";
+import { renderHook } from "./renderHook";
+
+describe("warning keys", () => {
+  it("reports each call site of the same hook separately", () => {
+    const { warnings } = captureSafeHookWarnings(() => {
+      const { rerender, unmount } = renderHook(() => {
+        useSafeEffect(() => {});
+        useSafeEffect(() => {});
+      }, {});
+      rerender({});
+      unmount();
+    });
+
+    const noDeps = warnings.filter((warning) => warning.rule === "no-deps");
+    expect(noDeps).toHaveLength(2);
+    expect(noDeps[0].location?.line).not.toBe(noDeps[1].location?.line);
+  });
+});
+
+describe("warning instances", () => {
+  it("reports each keyed instance of a component separately", () => {
+    function Item() {
+      useSafeEffect(() => {});
+      return null;
+    }
+
+    const { warnings } = captureSafeHookWarnings(() => {
+      let renderer!: ReactTestRenderer;
+      act(() => {
+        renderer = create(
+          <>
+            <Item key="a" />
+            <Item key="b" />
+          </>
+        );
+      });
+      act(() => renderer.unmount());
+    });
+
+    const keys = warnings
+      .filter((warning) => warning.rule === "no-deps")
+      .map((warning) => warning.ancestry?.key);
+    expect(keys).toEqual(["a", "b"]);
+  });
+});